@@ -1,9 +1,135 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, MessageRole, SolveResponse, ExplanationLevel, ChatHistoryItem } from './types';
-import { solveMathProblem } from './services/geminiService';
+import { Message, MessageRole, SolveResponse, SolveResult, ExplanationLevel, EXPLANATION_LEVELS, ChatHistoryItem, OutboxItem, PartialSolveResponse, PracticeSet, ReadAloudSection, SolveErrorKind, SolveMode, SpeechSettings, TutorState, WorksheetProblem } from './types';
+import { solveMathProblem, generatePracticeProblems, solverNeedsNetwork, WORKSHEET_CONCURRENCY } from './services/solverService';
+import { verifySolution } from './services/answerVerifier';
+import { GradeResult, gradeStepAttempt } from './services/answerGrading';
+import { cropImageRegion } from './services/imagePreprocess';
+import { runWithConcurrency } from './services/concurrency';
+import { listSessions, historyCursorOf, getSession, saveSessionMessages, renameSession, deleteSession, clearSessions, deriveSessionTitle } from './services/sessionStore';
+import { EXPORT_FORMATS, ExportEntry, ExportFormat, collectExportEntries, exportSolutions } from './services/solutionExport';
+import { sharedSolutionFrom, shareSolution } from './services/shareLink';
+import { drainOutbox, queueProblem } from './services/outbox';
+import { notifyUser, requestNotificationPermission } from './services/pwa';
+import { appendDictation, Dictation, dictationSupported, loadDictationLanguage, saveDictationLanguage, startDictation } from './services/dictation';
+import { loadSpeechSettings, saveSpeechSettings, speakText, speechSupported, stopSpeaking } from './services/speechPlayback';
 import DrawingBoard from './components/DrawingBoard';
 import MathResponse from './components/MathResponse';
+import MathRenderer from './components/MathRenderer';
+import PracticePanel from './components/PracticePanel';
+import TutorPanel from './components/TutorPanel';
+import ExplanationDiff from './components/ExplanationDiff';
+import TranscriptionPreview from './components/TranscriptionPreview';
+import ImageCropper from './components/ImageCropper';
+import WorksheetPanel from './components/WorksheetPanel';
+import CacheDebugPanel from './components/CacheDebugPanel';
+import ProgressDashboard from './components/ProgressDashboard';
+import ReadAloudBar from './components/ReadAloudBar';
+import DictationIndicator from './components/DictationIndicator';
+import MathInput, { MathInputHandle } from './components/MathInput';
+
+type TutorEvent =
+  | { type: 'attempt'; answer: string; grade: GradeResult }
+  | { type: 'reveal' }
+  | { type: 'finish' };
+
+const WORKSHEET_STATUS_STYLES = {
+  queued: 'text-slate-400',
+  solving: 'text-indigo-500 animate-pulse',
+  done: 'text-emerald-600',
+  failed: 'text-red-500'
+};
+
+const SOLVE_ERROR_LABELS: Record<SolveErrorKind, string> = {
+  empty_response: 'Empty reply',
+  malformed_json: 'Unreadable reply',
+  invalid_schema: 'Incomplete reply',
+  aborted: 'Stopped',
+  missing_api_key: 'Setup needed',
+  auth: 'API key rejected',
+  rate_limited: 'Rate limited',
+  quota_exhausted: 'Quota used up',
+  safety_blocked: 'Blocked',
+  off_topic: 'Off topic',
+  network: 'Offline',
+  server: 'Service unavailable',
+  unknown: 'Error'
+};
+
+// Failures the model itself caused, where rewording the question may help.
+const REPHRASE_KINDS: SolveErrorKind[] = ['empty_response', 'malformed_json', 'invalid_schema'];
+
+// Wrong attempts at one step before its working is shown anyway.
+const TUTOR_STUCK_AFTER = 2;
+
+const initialTutorState = (): TutorState => ({ currentStep: 0, revealedSteps: [], attempts: [], phase: 'working' });
+
+const QUEUED_MESSAGE = "You're offline. This problem is saved and will be solved automatically when you're back online.";
+
+// What a finished (not stopped) solve writes into its assistant message.
+const solvePatch = (result: SolveResult, checkText: string, mode: SolveMode): Partial<Message> => {
+  if (result.ok === false) {
+    const { kind, message } = result.error;
+    return {
+      content: REPHRASE_KINDS.includes(kind) ? `${message} Please try rephrasing the question or ask again.` : message,
+      errorKind: kind,
+      partialMetadata: undefined,
+      cached: undefined
+    };
+  }
+  return {
+    content: JSON.stringify(result.data),
+    metadata: result.data,
+    errorKind: undefined,
+    partialMetadata: undefined,
+    verification: verifySolution(checkText, result.data),
+    tutor: mode === 'tutor' ? initialTutorState() : undefined,
+    cached: result.cached || undefined
+  };
+};
+
+/**
+ * Tutoring state machine: the student stays on `currentStep` until they produce
+ * its result, ask to see it, or get stuck. Moving past the last step completes
+ * the session, after which the full solution is shown.
+ */
+const advanceTutor = (state: TutorState, event: TutorEvent, stepCount: number): TutorState => {
+  if (state.phase === 'complete') return state;
+
+  const moveOn = (from: TutorState, revealed: boolean): TutorState => {
+    const currentStep = from.currentStep + 1;
+    return {
+      ...from,
+      currentStep,
+      revealedSteps: revealed ? [...from.revealedSteps, from.currentStep] : from.revealedSteps,
+      phase: currentStep >= stepCount ? 'complete' : 'working'
+    };
+  };
+
+  switch (event.type) {
+    case 'attempt': {
+      const next: TutorState = {
+        ...state,
+        attempts: [...state.attempts, {
+          stepIndex: state.currentStep,
+          answer: event.answer,
+          status: event.grade.status,
+          detail: event.grade.detail,
+          timestamp: Date.now()
+        }]
+      };
+      if (event.grade.status === 'correct') return moveOn(next, false);
+      const misses = next.attempts.filter(a => a.stepIndex === state.currentStep && a.status === 'incorrect').length;
+      return misses >= TUTOR_STUCK_AFTER ? moveOn(next, true) : next;
+    }
+    case 'reveal':
+      return moveOn(state, true);
+    case 'finish': {
+      const remaining = Array.from({ length: stepCount - state.currentStep }, (_, idx) => state.currentStep + idx);
+      return { ...state, currentStep: stepCount, revealedSteps: [...state.revealedSteps, ...remaining], phase: 'complete' };
+    }
+  }
+};
 
 const App: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -11,19 +137,67 @@ const App: React.FC = () => {
   const [isSolving, setIsSolving] = useState(false);
   const [showDrawing, setShowDrawing] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  // A drawn or uploaded image waiting for the student to confirm its transcription.
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  // An uploaded photo being cropped and downscaled before transcription.
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [worksheetImage, setWorksheetImage] = useState<string | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
   const [explanationLevel, setExplanationLevel] = useState<ExplanationLevel>('standard');
   const [history, setHistory] = useState<ChatHistoryItem[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [practiceLoadingId, setPracticeLoadingId] = useState<string | null>(null);
+  const [tutorMode, setTutorMode] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [showCacheDebug, setShowCacheDebug] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  // Shown in the progress bubble while a transient failure is being retried.
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // The solution being read aloud; `owner` is its message id, or "message/problem" for a practice solution.
+  const [readAloud, setReadAloud] = useState<{ owner: string; sections: ReadAloudSection[]; index: number; paused: boolean } | null>(null);
+  const [speechSettings, setSpeechSettings] = useState(loadSpeechSettings);
+  // Words heard but not yet final while dictating; null when the microphone is off.
+  const [dictationInterim, setDictationInterim] = useState<string | null>(null);
+  const [dictationError, setDictationError] = useState<string | null>(null);
+  const [dictationLang, setDictationLang] = useState(loadDictationLanguage);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<MathInputHandle>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const dictationRef = useRef<Dictation | null>(null);
+  // Messages as they were loaded from storage; re-saving them would only bump the session's timestamp.
+  const loadedMessagesRef = useRef<Message[] | null>(null);
+  // Read by the outbox drain, which outlives the render it was started from.
+  const messagesRef = useRef(messages);
+  const sessionIdRef = useRef(sessionId);
+  messagesRef.current = messages;
+  sessionIdRef.current = sessionId;
 
-  // Load history from localStorage
+  // Load the first page of history from IndexedDB
   useEffect(() => {
-    const saved = localStorage.getItem('math_solver_history');
-    if (saved) setHistory(JSON.parse(saved));
+    listSessions()
+      .then(({ items, hasMore }) => {
+        setHistory(items);
+        setHasMoreHistory(hasMore);
+      })
+      .catch(err => console.error("History load error:", err));
   }, []);
 
+  // Persist the active session whenever its messages change (once streaming has settled)
+  useEffect(() => {
+    if (isSolving || !sessionId || messages.length === 0 || messages === loadedMessagesRef.current) return;
+    saveSessionMessages(sessionId, messages)
+      .then(item => setHistory(prev => [item, ...prev.filter(h => h.id !== item.id)]))
+      .catch(err => console.error("Session save error:", err));
+  }, [messages, sessionId, isSolving]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -32,87 +206,569 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [messages, isSolving]);
 
-  const saveToHistory = (title: string, lastMsg: string) => {
-    const newItem: ChatHistoryItem = {
-      id: Date.now().toString(),
-      title: title.length > 30 ? title.substring(0, 30) + '...' : title,
-      timestamp: Date.now(),
-      lastMessage: lastMsg
-    };
-    const updated = [newItem, ...history].slice(0, 20); // Keep last 20
-    setHistory(updated);
-    localStorage.setItem('math_solver_history', JSON.stringify(updated));
-  };
-
-  const handleSpeech = (text: string) => {
-    if ('speechSynthesis' in window) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text.replace(/[\$\*\#]/g, ''));
-      utterance.voice = window.speechSynthesis.getVoices().find(v => v.lang.startsWith('en')) || null;
-      utterance.rate = 1;
-      window.speechSynthesis.speak(utterance);
+  const loadMoreHistory = async () => {
+    const oldest = history[history.length - 1];
+    const { items, hasMore } = await listSessions(oldest && historyCursorOf(oldest));
+    setHistory(prev => [...prev, ...items.filter(item => !prev.some(h => h.id === item.id))]);
+    setHasMoreHistory(hasMore);
+  };
+
+  const openSession = async (id: string) => {
+    if (isSolving) return;
+    const session = await getSession(id);
+    if (!session) return;
+    loadedMessagesRef.current = session.messages;
+    setSessionId(session.id);
+    setMessages(session.messages);
+    // Carry on at the level the session was last explained at.
+    const lastLevel = [...session.messages].reverse().find(m => m.level)?.level;
+    if (lastLevel) setExplanationLevel(lastLevel);
+    if (window.innerWidth < 1024) setSidebarOpen(false);
+  };
+
+  const startNewSession = () => {
+    if (isSolving) return;
+    loadedMessagesRef.current = null;
+    setSessionId(null);
+    setMessages([]);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const id = renamingId;
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title) return;
+    await renameSession(id, title);
+    setHistory(prev => prev.map(h => h.id === id ? { ...h, title } : h));
+  };
+
+  const removeSession = async (id: string) => {
+    await deleteSession(id);
+    setHistory(prev => prev.filter(h => h.id !== id));
+    if (id === sessionId) startNewSession();
+  };
+
+  const clearAllHistory = async () => {
+    await clearSessions();
+    setHistory([]);
+    setHasMoreHistory(false);
+    startNewSession();
+  };
+
+  // Speaks the current section and moves on when it ends. Skipping to another
+  // section or changing the voice cancels it and starts speaking afresh.
+  useEffect(() => {
+    if (!readAloud) return;
+    const utterance = speakText(readAloud.sections[readAloud.index].text, speechSettings, () =>
+      setReadAloud(prev => prev && prev.index + 1 < prev.sections.length ? { ...prev, index: prev.index + 1 } : null));
+    return () => stopSpeaking(utterance);
+  }, [readAloud?.sections, readAloud?.index, speechSettings]);
+
+  // The solution being read belongs to the conversation being left.
+  useEffect(() => setReadAloud(null), [sessionId]);
+
+  const startReadAloud = (owner: string, sections: ReadAloudSection[]) => {
+    if (!speechSupported() || sections.length === 0) return;
+    setReadAloud({ owner, sections, index: 0, paused: false });
+  };
+
+  const pauseReadAloud = () => {
+    window.speechSynthesis.pause();
+    setReadAloud(prev => prev && { ...prev, paused: true });
+  };
+
+  const resumeReadAloud = () => {
+    window.speechSynthesis.resume();
+    setReadAloud(prev => prev && { ...prev, paused: false });
+  };
+
+  const moveReadAloud = (delta: number) =>
+    setReadAloud(prev => prev && { ...prev, index: Math.min(Math.max(prev.index + delta, 0), prev.sections.length - 1), paused: false });
+
+  const changeSpeechSettings = (settings: SpeechSettings) => {
+    saveSpeechSettings(settings);
+    setSpeechSettings(settings);
+    setReadAloud(prev => prev && { ...prev, paused: false });
+  };
+
+  const speakingSectionFor = (owner: string) => readAloud?.owner === owner ? readAloud.sections[readAloud.index].id : undefined;
+
+  const updateMessage = (id: string, patch: Partial<Message>) =>
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+
+  // Runs one solve and fills the assistant placeholder `assistantId` with the outcome.
+  const solveInto = async (
+    assistantId: string,
+    { text, image, transcription, guidance, level, mode, history, signal, force }: {
+      text: string;
+      image: string | null;
+      transcription?: string;
+      guidance?: string;
+      level: ExplanationLevel;
+      mode: SolveMode;
+      history: Message[];
+      signal: AbortSignal;
+      // Ask the solver even when the solution cache has an answer.
+      force?: boolean;
+    }
+  ): Promise<'done' | 'failed' | 'stopped'> => {
+    const updateAssistant = (patch: Partial<Message>) => updateMessage(assistantId, patch);
+    try {
+      // Tutoring replies are not streamed in, since that would reveal every step at once.
+      const result = await solveMathProblem(text, level, image || undefined, history, {
+        signal,
+        mode,
+        transcription,
+        guidance,
+        force,
+        onPartial: mode === 'tutor' ? undefined : (partial: PartialSolveResponse) => updateAssistant({ partialMetadata: partial }),
+        onRetry: (error, attempt, delayMs) => {
+          // The retried reply streams in from the start again.
+          updateAssistant({ partialMetadata: { steps: [] } });
+          setRetryNotice(`${SOLVE_ERROR_LABELS[error.kind]} · retry ${attempt} in ${Math.ceil(delayMs / 1000)}s`);
+        }
+      });
+
+      if (result.ok === false && result.error.kind === 'aborted') {
+        updateAssistant({ content: result.error.message, stopped: true, timestamp: Date.now() });
+        return 'stopped';
+      }
+      updateAssistant({ ...solvePatch(result, transcription || text, mode), timestamp: Date.now() });
+      return result.ok ? 'done' : 'failed';
+    } catch (error) {
+      console.error("Solve error:", error);
+      updateAssistant({
+        content: "I ran into a problem calculation. Please check your connection or try a different question.",
+        errorKind: 'unknown',
+        partialMetadata: undefined,
+        timestamp: Date.now()
+      });
+      return 'failed';
+    } finally {
+      setRetryNotice(null);
     }
   };
 
-  const processSolution = async (text: string, image: string | null) => {
+  /**
+   * Solves a problem that was queued while offline and writes the answer into
+   * its placeholder, in the open session or straight into storage. Returns
+   * false to keep it queued when the connection is gone again.
+   */
+  const solveQueued = async (item: OutboxItem): Promise<boolean> => {
+    const isActive = item.sessionId === sessionIdRef.current;
+    const sessionMessages = isActive ? messagesRef.current : (await getSession(item.sessionId))?.messages;
+    const questionIndex = sessionMessages?.findIndex(m => m.id === item.questionId) ?? -1;
+    // The session or the message was deleted in the meantime; nothing is waiting for this answer.
+    if (questionIndex === -1 || !sessionMessages.some(m => m.id === item.answerId)) return true;
+
+    const result = await solveMathProblem(item.text, item.level, item.image, sessionMessages.slice(0, questionIndex), {
+      mode: item.mode,
+      transcription: item.transcription
+    });
+    if (result.ok === false && result.error.kind === 'network') return false;
+
+    const patch: Partial<Message> = { ...solvePatch(result, item.transcription || item.text, item.mode), queued: undefined, timestamp: Date.now() };
+    if (item.sessionId === sessionIdRef.current) {
+      updateMessage(item.answerId, patch);
+    } else {
+      const session = await getSession(item.sessionId);
+      if (!session) return true;
+      const saved = await saveSessionMessages(item.sessionId, session.messages.map(m => m.id === item.answerId ? { ...m, ...patch } : m));
+      setHistory(prev => [saved, ...prev.filter(h => h.id !== saved.id)]);
+    }
+    return true;
+  };
+
+  const solveQueuedRef = useRef(solveQueued);
+  solveQueuedRef.current = solveQueued;
+
+  // Solve whatever was queued offline: at startup and whenever the connection returns.
+  useEffect(() => {
+    const drain = () => {
+      drainOutbox(item => solveQueuedRef.current(item))
+        .then(solved => {
+          if (solved > 0) notifyUser("Solutions ready", solved === 1 ? "Your queued problem has been solved." : `${solved} queued problems have been solved.`);
+        })
+        .catch(err => console.error("Outbox error:", err));
+    };
+    const goOnline = () => {
+      setIsOnline(true);
+      drain();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine) drain();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  const processSolution = async (
+    text: string,
+    image: string | null,
+    { level = explanationLevel, reexplainOf, transcription, guidance, force, history = messages }: {
+      level?: ExplanationLevel;
+      reexplainOf?: string;
+      transcription?: string;
+      guidance?: string;
+      force?: boolean;
+      // Earlier turns to send; a re-solve sends those before the original question.
+      history?: Message[];
+    } = {}
+  ) => {
     if (isSolving) return;
     setIsSolving(true);
+    const activeSessionId = sessionId || Date.now().toString();
+    if (!sessionId) setSessionId(activeSessionId);
     
     const userMsg: Message = {
       id: Date.now().toString(),
       role: MessageRole.USER,
-      content: text || "Help me solve this image.",
+      content: text || (transcription ? "Solve this problem." : "Help me solve this image."),
       image: image || undefined,
+      transcription,
       timestamp: Date.now(),
-      type: image ? 'image' : 'text'
+      type: image ? 'image' : 'text',
+      level
     };
     
-    setMessages(prev => [...prev, userMsg]);
+    // The assistant reply is added up front and filled in as sections stream in.
+    const assistantId = (Date.now() + 1).toString();
+    const assistantMsg: Message = {
+      id: assistantId,
+      role: MessageRole.ASSISTANT,
+      content: '',
+      timestamp: Date.now(),
+      partialMetadata: { steps: [] },
+      level,
+      reexplainOf
+    };
+    // A re-explanation is always a full solution, even with tutoring switched on.
+    const mode: SolveMode = tutorMode && !reexplainOf ? 'tutor' : 'solve';
+
+    // Without a connection the question waits in the outbox instead of failing.
+    if (!navigator.onLine && solverNeedsNetwork()) {
+      setMessages(prev => [...prev, userMsg, { ...assistantMsg, content: QUEUED_MESSAGE, partialMetadata: undefined, queued: true }]);
+      setInputValue('');
+      setSelectedImage(null);
+      setIsSolving(false);
+      try {
+        await queueProblem({
+          id: assistantId,
+          sessionId: activeSessionId,
+          questionId: userMsg.id,
+          answerId: assistantId,
+          text,
+          image: image || undefined,
+          transcription,
+          level,
+          mode,
+          createdAt: Date.now()
+        });
+        requestNotificationPermission();
+      } catch (error) {
+        console.error("Outbox error:", error);
+        updateMessage(assistantId, { content: "You're offline and this problem could not be saved for later. Please ask again once you're connected.", queued: undefined, errorKind: 'network' });
+      }
+      return;
+    }
+
+    setMessages(prev => [...prev, userMsg, assistantMsg]);
     setInputValue('');
     setSelectedImage(null);
     setShowDrawing(false);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      await solveInto(assistantId, { text, image, transcription, guidance, level, mode, history, signal: controller.signal, force });
+    } finally {
+      abortControllerRef.current = null;
+      setIsSolving(false);
+    }
+  };
+
+  // Solves each selected worksheet problem as its own question/answer pair, a few at a time.
+  const solveWorksheet = async (image: string, problems: WorksheetProblem[]) => {
+    if (isSolving || problems.length === 0) return;
+    setIsSolving(true);
+    if (!sessionId) setSessionId(Date.now().toString());
+
+    const batchId = Date.now().toString();
+    const level = explanationLevel;
+    setActiveBatchId(batchId);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      // Each question carries just its own part of the page, which keeps every request small.
+      const images = await Promise.all(problems.map(p =>
+        p.region ? cropImageRegion(image, p.region).catch(() => image) : Promise.resolve(image)
+      ));
+      const pairs = problems.map((problem, idx): [Message, Message] => [
+        {
+          id: `${batchId}-${idx}-q`,
+          role: MessageRole.USER,
+          content: `Problem ${problem.label}`,
+          image: images[idx],
+          transcription: problem.text,
+          timestamp: Date.now(),
+          type: 'image',
+          level
+        },
+        {
+          id: `${batchId}-${idx}-a`,
+          role: MessageRole.ASSISTANT,
+          content: "Waiting to be solved...",
+          timestamp: Date.now(),
+          level,
+          worksheet: { batchId, label: problem.label, status: 'queued' }
+        }
+      ]);
+      setMessages(prev => [...prev, ...pairs.flat()]);
+
+      await runWithConcurrency(pairs, WORKSHEET_CONCURRENCY, async ([question, answer]) => {
+        if (controller.signal.aborted) {
+          updateMessage(answer.id, { content: "Stopped before this problem was solved.", worksheet: { ...answer.worksheet!, status: 'failed' } });
+          return;
+        }
+        await solveWorksheetItem(question, answer, controller.signal);
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setActiveBatchId(null);
+      setIsSolving(false);
+    }
+  };
+
+  // Worksheet problems are independent, so none of the conversation is sent along.
+  const solveWorksheetItem = async (question: Message, answer: Message, signal: AbortSignal, force = false) => {
+    const worksheet = answer.worksheet!;
+    updateMessage(answer.id, { content: '', partialMetadata: { steps: [] }, stopped: undefined, cached: undefined, worksheet: { ...worksheet, status: 'solving' } });
+    const outcome = await solveInto(answer.id, {
+      text: question.content,
+      image: question.image || null,
+      transcription: question.transcription,
+      level: answer.level || explanationLevel,
+      mode: 'solve',
+      history: [],
+      signal,
+      force
+    });
+    updateMessage(answer.id, { worksheet: { ...worksheet, status: outcome === 'done' ? 'done' : 'failed' } });
+  };
+
+  const retryWorksheetProblem = async (answer: Message, force = false) => {
+    const idx = messages.findIndex(m => m.id === answer.id);
+    const question = messages[idx - 1];
+    if (isSolving || !answer.worksheet || question?.role !== MessageRole.USER) return;
+    setIsSolving(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      await solveWorksheetItem(question, answer, controller.signal, force);
+    } finally {
+      abortControllerRef.current = null;
+      setIsSolving(false);
+    }
+  };
+
+  // Sends a question again, unchanged, into the same reply; `force` bypasses the solution cache.
+  const retrySolution = async (answer: Message, force = false) => {
+    if (answer.worksheet) return retryWorksheetProblem(answer, force);
+    const idx = messages.findIndex(m => m.id === answer.id);
+    const question = messages[idx - 1];
+    if (isSolving || question?.role !== MessageRole.USER) return;
+    setIsSolving(true);
+    updateMessage(answer.id, { content: '', errorKind: undefined, partialMetadata: { steps: [] }, stopped: undefined, cached: undefined, metadata: undefined, verification: undefined });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     try {
-      const responseData = await solveMathProblem(text, explanationLevel, image || undefined);
-      
-      const assistantMsg: Message = {
-        id: (Date.now() + 1).toString(),
+      await solveInto(answer.id, {
+        text: question.content,
+        image: question.image || null,
+        transcription: question.transcription,
+        level: answer.level || explanationLevel,
+        mode: tutorMode && !answer.reexplainOf ? 'tutor' : 'solve',
+        history: messages.slice(0, idx - 1),
+        signal: controller.signal,
+        force
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsSolving(false);
+    }
+  };
+
+  // Sends the original problem again together with what the local check found wrong.
+  const resolveWithDiscrepancy = (assistantMsg: Message) => {
+    const idx = messages.findIndex(m => m.id === assistantMsg.id);
+    const question = messages.slice(0, idx).reverse().find(m => m.role === MessageRole.USER);
+    if (!question || !assistantMsg.metadata || !assistantMsg.verification) return;
+    // Same question and same earlier turns give the same cache key, so the forced
+    // solve replaces the rejected answer in the cache instead of leaving it there.
+    const history = messages.slice(0, messages.indexOf(question));
+    // The question stays as asked, so the new answer is shown and verified against it alone.
+    const guidance = `A previous solution gave the final answer ${assistantMsg.metadata.finalAnswer}, but a local check found a problem: ${assistantMsg.verification.detail} Please solve the problem again carefully and double-check the final answer.`;
+    processSolution(question.content, question.image || null, { level: assistantMsg.level || explanationLevel, transcription: question.transcription, guidance, force: true, history });
+  };
+
+  // Regenerates a solution at another level from the question that produced it.
+  const reexplain = (assistantMsg: Message, level: ExplanationLevel) => {
+    const idx = messages.findIndex(m => m.id === assistantMsg.id);
+    const question = messages.slice(0, idx).reverse().find(m => m.role === MessageRole.USER);
+    if (!question) return;
+    processSolution(question.content, question.image || null, { level, reexplainOf: assistantMsg.id, transcription: question.transcription });
+  };
+
+  const stopSolving = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const askAboutStep = (metadata: SolveResponse, stepIndex: number) => {
+    const step = metadata.steps[stepIndex];
+    setInputValue(`About step ${stepIndex + 1} ("${step.title}"): `);
+    inputRef.current?.focus();
+  };
+
+  // Appends a fresh set of similar problems; attempts are stored on the message so they persist with the session.
+  const startPractice = async (sourceMsg: Message) => {
+    if (!sourceMsg.metadata || practiceLoadingId) return;
+    setPracticeLoadingId(sourceMsg.id);
+    // Practice at the level the solution was explained at, not whatever is selected now.
+    const level = sourceMsg.level || explanationLevel;
+    try {
+      const problems = await generatePracticeProblems(sourceMsg.metadata, level);
+      const practice: PracticeSet = {
+        id: Date.now().toString(),
+        sourceMessageId: sourceMsg.id,
+        concepts: sourceMsg.metadata.concepts,
+        level,
+        problems
+      };
+      setMessages(prev => [...prev, {
+        id: practice.id,
         role: MessageRole.ASSISTANT,
-        content: JSON.stringify(responseData),
+        content: `Practice set: ${problems.length} problems`,
         timestamp: Date.now(),
-        metadata: responseData
-      };
-      
-      setMessages(prev => [...prev, assistantMsg]);
-      saveToHistory(responseData.description || text || "Math Problem", responseData.finalAnswer);
+        practice
+      }]);
     } catch (error) {
       setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
+        id: Date.now().toString(),
         role: MessageRole.ASSISTANT,
-        content: "I ran into a problem calculation. Please check your connection or try a different question.",
+        content: "I couldn't prepare practice problems right now. Please try again.",
         timestamp: Date.now()
       }]);
     } finally {
-      setIsSolving(false);
+      setPracticeLoadingId(null);
     }
   };
 
+  const updatePractice = (messageId: string, practice: PracticeSet) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, practice } : m));
+  };
+
+  const exportTitle = () => history.find(h => h.id === sessionId)?.title || deriveSessionTitle(messages);
+
+  const runExport = (format: ExportFormat, entries: ExportEntry[]) => {
+    exportSolutions(format, exportTitle(), entries).catch(err => console.error("Export error:", err));
+  };
+
+  const exportMessage = (msg: Message, format: ExportFormat) => {
+    const entry = collectExportEntries(messages).find(e => e.solution === msg.metadata);
+    if (entry) runExport(format, [entry]);
+  };
+
+  const exportSession = (format: ExportFormat) => {
+    setExportMenuOpen(false);
+    runExport(format, collectExportEntries(messages));
+  };
+
+  const hasSolutions = messages.some(m => m.metadata);
+
+  const shareMessage = (msg: Message) => {
+    const idx = messages.findIndex(m => m.id === msg.id);
+    const question = messages.slice(0, idx).reverse().find(m => m.role === MessageRole.USER);
+    const shared = sharedSolutionFrom(question, msg);
+    if (!shared) return Promise.reject(new Error("Nothing to share yet."));
+    return shareSolution(shared, exportTitle());
+  };
+
+  // Only the most recent tutoring reply can still be worked through.
+  const activeTutorMsg = [...messages].reverse().find(m => m.tutor);
+  const tutoringMsg = activeTutorMsg?.tutor?.phase === 'working' ? activeTutorMsg : undefined;
+
+  const batchItems = activeBatchId ? messages.filter(m => m.worksheet?.batchId === activeBatchId) : [];
+  const batchProgress = batchItems.length > 0
+    ? { total: batchItems.length, finished: batchItems.filter(m => m.worksheet!.status === 'done' || m.worksheet!.status === 'failed').length }
+    : null;
+
+  const comparedMsg = comparingId ? messages.find(m => m.id === comparingId) : undefined;
+  const comparedOriginal = comparedMsg ? messages.find(m => m.id === comparedMsg.reexplainOf) : undefined;
+
+  const dispatchTutor = (messageId: string, event: TutorEvent) => {
+    setMessages(prev => prev.map(m => m.id === messageId && m.tutor && m.metadata
+      ? { ...m, tutor: advanceTutor(m.tutor, event, m.metadata.steps.length) }
+      : m));
+  };
+
+  const submitTutorAttempt = (msg: Message, answer: string) => {
+    if (!msg.tutor || !msg.metadata) return;
+    const step = msg.metadata.steps[msg.tutor.currentStep];
+    dispatchTutor(msg.id, { type: 'attempt', answer, grade: gradeStepAttempt(step, answer) });
+    setInputValue('');
+  };
+
   const handleSend = () => {
     if (!inputValue.trim() && !selectedImage) return;
+    // While tutoring, what the student types is their attempt at the current step.
+    if (tutoringMsg && !selectedImage) {
+      submitTutorAttempt(tutoringMsg, inputValue);
+      return;
+    }
     processSolution(inputValue, selectedImage);
   };
 
-  const startVoiceInput = () => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      const recognition = new SpeechRecognition();
-      recognition.onresult = (event: any) => setInputValue(event.results[0][0].transcript);
-      recognition.start();
-    } else {
-      alert("Voice input not supported.");
+  const startVoiceInput = (lang = dictationLang) => {
+    if (!dictationSupported()) {
+      setDictationError('Voice input is not supported in this browser.');
+      return;
     }
+    setDictationError(null);
+    const dictation = startDictation(lang, {
+      onInterim: setDictationInterim,
+      onFinal: (text) => setInputValue(prev => appendDictation(prev, text)),
+      onError: setDictationError,
+      // A dictation replaced by one in another language ends after its successor started.
+      onEnd: () => {
+        if (dictationRef.current !== dictation) return;
+        dictationRef.current = null;
+        setDictationInterim(null);
+      }
+    });
+    dictationRef.current = dictation;
+    setDictationInterim('');
   };
 
+  const stopVoiceInput = () => dictationRef.current?.stop();
+
+  const changeDictationLang = (lang: string) => {
+    saveDictationLanguage(lang);
+    setDictationLang(lang);
+    if (dictationRef.current) {
+      dictationRef.current.stop();
+      startVoiceInput(lang);
+    }
+  };
+
+  useEffect(() => () => dictationRef.current?.stop(), []);
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden font-inter">
       {/* Sidebar - History */}
@@ -126,18 +782,52 @@ const App: React.FC = () => {
           </div>
           <div className="flex-1 overflow-y-auto px-3 space-y-2 min-w-[320px]">
             {history.map(item => (
-              <button 
+              <div
                 key={item.id}
-                onClick={() => {/* Load history logic if needed */}}
-                className="w-full text-left p-4 rounded-2xl hover:bg-indigo-50 border border-transparent hover:border-indigo-100 transition-all group"
+                className={`relative rounded-2xl border transition-all group ${item.id === sessionId ? 'bg-indigo-50 border-indigo-100' : 'border-transparent hover:bg-indigo-50 hover:border-indigo-100'}`}
               >
-                <div className="text-xs font-bold text-slate-800 mb-1 group-hover:text-indigo-600">{item.title}</div>
-                <div className="text-[10px] text-slate-400 line-clamp-1">{item.lastMessage}</div>
-              </button>
+                {renamingId === item.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full text-xs font-bold text-slate-800 bg-white border border-indigo-200 rounded-2xl p-4 focus:outline-none"
+                  />
+                ) : (
+                  <button onClick={() => openSession(item.id)} className="w-full text-left p-4 pr-16">
+                    <div className="text-xs font-bold text-slate-800 mb-1 group-hover:text-indigo-600">{item.title}</div>
+                    <div className="text-[10px] text-slate-400 line-clamp-1">{item.lastMessage}</div>
+                  </button>
+                )}
+                {renamingId !== item.id && (
+                  <div className="absolute top-3 right-3 hidden group-hover:flex gap-1">
+                    <button onClick={() => { setRenamingId(item.id); setRenameValue(item.title); }} className="p-1.5 text-slate-400 hover:text-indigo-600 rounded-lg" title="Rename">
+                      <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M12 20h9"/><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
+                    </button>
+                    <button onClick={() => removeSession(item.id)} className="p-1.5 text-slate-400 hover:text-red-500 rounded-lg" title="Delete">
+                      <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                    </button>
+                  </div>
+                )}
+              </div>
             ))}
+            {hasMoreHistory && (
+              <button onClick={loadMoreHistory} className="w-full py-3 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">
+                Load More
+              </button>
+            )}
           </div>
-          <div className="p-4 border-t border-slate-100 min-w-[320px]">
-            <button onClick={() => {setMessages([]); setHistory([]); localStorage.removeItem('math_solver_history');}} className="text-xs text-red-400 font-bold hover:text-red-600">Clear All History</button>
+          <div className="p-4 border-t border-slate-100 min-w-[320px] flex items-center justify-between">
+            <button onClick={clearAllHistory} className="text-xs text-red-400 font-bold hover:text-red-600">Clear All History</button>
+            <div className="flex items-center gap-4">
+              <button onClick={() => setShowProgress(true)} className="text-xs text-slate-400 font-bold hover:text-indigo-600">Progress</button>
+              <button onClick={() => setShowCacheDebug(true)} className="text-xs text-slate-400 font-bold hover:text-indigo-600">Cache Stats</button>
+            </div>
           </div>
         </div>
       </aside>
@@ -155,12 +845,15 @@ const App: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m18 16 4-4-4-4"></path><path d="m6 8-4 4 4 4"></path><path d="m14.5 4-5 16"></path></svg>
               </div>
               <h1 className="font-black text-lg text-slate-800 tracking-tighter">DB MATHSOLVER<span className="text-indigo-600">.AI</span></h1>
+              {!isOnline && (
+                <span className="px-2.5 py-1 bg-amber-50 text-amber-600 border border-amber-200 rounded-lg text-[10px] font-black uppercase tracking-widest">Offline</span>
+              )}
             </div>
           </div>
 
           <div className="flex items-center gap-3">
              <div className="hidden sm:flex bg-slate-100 p-1 rounded-xl border border-slate-200">
-                {(['quick', 'standard', 'deep'] as ExplanationLevel[]).map(lvl => (
+                {EXPLANATION_LEVELS.map(lvl => (
                   <button 
                     key={lvl}
                     onClick={() => setExplanationLevel(lvl)}
@@ -170,7 +863,39 @@ const App: React.FC = () => {
                   </button>
                 ))}
              </div>
-             <button onClick={() => setMessages([])} className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+             <button
+                onClick={() => setTutorMode(!tutorMode)}
+                title="Hint-first tutoring: work through each step yourself"
+                className={`px-3 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all ${tutorMode ? 'bg-amber-50 text-amber-700 border-amber-200' : 'text-slate-400 border-slate-200 hover:text-slate-600'}`}
+             >
+                Tutor {tutorMode ? 'On' : 'Off'}
+             </button>
+             {hasSolutions && (
+               <div className="relative">
+                 <button
+                    onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                    title="Export this session"
+                    className={`p-2.5 rounded-xl transition-all ${exportMenuOpen ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                 >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><path d="m7 10 5 5 5-5"/><path d="M12 15V3"/></svg>
+                 </button>
+                 {exportMenuOpen && (
+                   <div className="absolute right-0 top-full mt-2 w-48 p-2 bg-white border border-slate-200 rounded-2xl shadow-xl">
+                     <div className="px-3 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em]">Export session</div>
+                     {EXPORT_FORMATS.map(({ format, label }) => (
+                       <button
+                         key={format}
+                         onClick={() => exportSession(format)}
+                         className="w-full text-left px-3 py-2 text-xs font-bold text-slate-600 rounded-xl hover:bg-indigo-50 hover:text-indigo-600"
+                       >
+                         {label}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+               </div>
+             )}
+             <button onClick={startNewSession} title="New Session" className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
                 <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></svg>
              </button>
           </div>
@@ -193,9 +918,9 @@ const App: React.FC = () => {
                 {[
                   { label: "Photo Solver", desc: "Snap & Solve", icon: "📷", action: () => fileInputRef.current?.click() },
                   { label: "Drawing Board", desc: "Digital Ink", icon: "🎨", action: () => setShowDrawing(true) },
-                  { label: "Voice Query", desc: "Speak Math", icon: "🎙️", action: startVoiceInput }
+                  { label: "Voice Query", desc: dictationSupported() ? "Speak Math" : "Not supported in this browser", icon: "🎙️", action: () => startVoiceInput(), disabled: !dictationSupported() }
                 ].map((btn, idx) => (
-                  <button key={idx} onClick={btn.action} className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm hover:shadow-xl hover:border-indigo-200 transition-all group active:scale-95 text-left">
+                  <button key={idx} onClick={btn.action} disabled={btn.disabled} className="p-6 bg-white border border-slate-100 rounded-3xl shadow-sm hover:shadow-xl hover:border-indigo-200 transition-all group active:scale-95 text-left disabled:opacity-50 disabled:pointer-events-none">
                     <div className="text-3xl mb-4 group-hover:scale-110 transition-transform">{btn.icon}</div>
                     <div className="font-bold text-slate-800 text-sm group-hover:text-indigo-600">{btn.label}</div>
                     <div className="text-xs text-slate-400 mt-1 font-medium">{btn.desc}</div>
@@ -205,7 +930,7 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {messages.map((msg) => (
+          {messages.filter(msg => msg.worksheet || !(msg.partialMetadata && !msg.stopped && !msg.partialMetadata.description)).map((msg) => (
             <div key={msg.id} className={`flex ${msg.role === MessageRole.USER ? 'justify-end' : 'justify-start'}`}>
               <div className={`max-w-[90%] lg:max-w-[70%] p-6 md:p-8 rounded-[2rem] shadow-sm transition-all ${
                 msg.role === MessageRole.USER 
@@ -215,12 +940,109 @@ const App: React.FC = () => {
                 {msg.role === MessageRole.USER ? (
                   <div className="space-y-4">
                     {msg.image && <img src={msg.image} className="max-w-full h-auto rounded-2xl border-4 border-white/20 shadow-lg mb-4" alt="Captured Problem" />}
+                    {msg.transcription && <MathRenderer tex={`$$${msg.transcription}$$`} className="text-white text-lg" />}
                     <p className="text-base md:text-lg font-medium leading-relaxed">{msg.content}</p>
                   </div>
                 ) : (
                   <div>
-                    {msg.metadata ? (
-                      <MathResponse data={msg.metadata} onSpeech={handleSpeech} />
+                    {msg.worksheet && (
+                      <div className="flex items-center gap-3 mb-4">
+                        <span className="px-2.5 py-1 bg-indigo-600 text-white rounded-lg text-[10px] font-black uppercase tracking-widest">Problem {msg.worksheet.label}</span>
+                        <span className={`text-[10px] font-black uppercase tracking-widest ${WORKSHEET_STATUS_STYLES[msg.worksheet.status]}`}>{msg.worksheet.status}</span>
+                        {msg.worksheet.status === 'failed' && (
+                          <button
+                            onClick={() => retryWorksheetProblem(msg)}
+                            disabled={isSolving}
+                            className="ml-auto px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-30 transition-all"
+                          >
+                            Retry
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {msg.metadata && msg.tutor?.phase === 'working' ? (
+                      <TutorPanel
+                        data={msg.metadata}
+                        tutor={msg.tutor}
+                        onReveal={() => dispatchTutor(msg.id, { type: 'reveal' })}
+                        onFinish={() => dispatchTutor(msg.id, { type: 'finish' })}
+                      />
+                    ) : msg.metadata ? (
+                      <>
+                        {msg.cached && (
+                          <div className="mb-6 flex items-center gap-3">
+                            <span className="px-2.5 py-1 bg-slate-100 text-slate-500 border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest">
+                              From cache
+                            </span>
+                            <button
+                              onClick={() => retrySolution(msg, true)}
+                              disabled={isSolving}
+                              className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-30 transition-all"
+                            >
+                              Re-solve
+                            </button>
+                          </div>
+                        )}
+                        {msg.tutor && (
+                          <p className="mb-6 text-[10px] font-black uppercase tracking-widest text-amber-600">
+                            You worked out {msg.metadata.steps.length - msg.tutor.revealedSteps.length} of {msg.metadata.steps.length} steps yourself
+                          </p>
+                        )}
+                        <MathResponse
+                          data={msg.metadata}
+                          onSpeech={(sections) => startReadAloud(msg.id, sections)}
+                          speakingSection={speakingSectionFor(msg.id)}
+                          onAskAboutStep={(idx) => askAboutStep(msg.metadata!, idx)}
+                          verification={msg.verification}
+                          onResolve={() => resolveWithDiscrepancy(msg)}
+                          onPractice={() => startPractice(msg)}
+                          isPracticeLoading={practiceLoadingId === msg.id}
+                          level={msg.level}
+                          onReexplain={(level) => reexplain(msg, level)}
+                          onCompare={msg.reexplainOf && messages.some(m => m.id === msg.reexplainOf && m.metadata) ? () => setComparingId(msg.id) : undefined}
+                          onExport={(format) => exportMessage(msg, format)}
+                          onShare={() => shareMessage(msg)}
+                        />
+                      </>
+                    ) : msg.practice ? (
+                      <PracticePanel
+                        practice={msg.practice}
+                        onChange={(practice) => updatePractice(msg.id, practice)}
+                        onSpeech={(problemId, sections) => startReadAloud(`${msg.id}/${problemId}`, sections)}
+                        speaking={readAloud?.owner.startsWith(`${msg.id}/`)
+                          ? { problemId: readAloud.owner.slice(msg.id.length + 1), sectionId: readAloud.sections[readAloud.index].id }
+                          : undefined}
+                      />
+                    ) : msg.partialMetadata ? (
+                      <div className="space-y-6">
+                        <MathResponse data={msg.partialMetadata} isPartial />
+                        {msg.stopped && (
+                          <p className="text-xs font-bold uppercase tracking-widest text-amber-600">{msg.content}</p>
+                        )}
+                      </div>
+                    ) : msg.queued ? (
+                      <div className="space-y-4">
+                        <span className="inline-block px-2.5 py-1 bg-amber-50 text-amber-600 border border-amber-200 rounded-lg text-[10px] font-black uppercase tracking-widest">
+                          Queued offline
+                        </span>
+                        <p className="text-base leading-relaxed">{msg.content}</p>
+                      </div>
+                    ) : msg.errorKind && !msg.worksheet ? (
+                      <div className="space-y-4">
+                        <div className="flex items-center gap-3">
+                          <span className="px-2.5 py-1 bg-red-50 text-red-500 border border-red-200 rounded-lg text-[10px] font-black uppercase tracking-widest">
+                            {SOLVE_ERROR_LABELS[msg.errorKind]}
+                          </span>
+                          <button
+                            onClick={() => retrySolution(msg)}
+                            disabled={isSolving}
+                            className="ml-auto px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-30 transition-all"
+                          >
+                            Retry
+                          </button>
+                        </div>
+                        <p className="text-base leading-relaxed">{msg.content}</p>
+                      </div>
                     ) : (
                       <p className="text-base leading-relaxed">{msg.content}</p>
                     )}
@@ -228,6 +1050,7 @@ const App: React.FC = () => {
                 )}
                 <div className={`text-[10px] mt-4 font-black uppercase tracking-widest opacity-40 ${msg.role === MessageRole.USER ? 'text-right' : 'text-left'}`}>
                   {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {msg.role === MessageRole.ASSISTANT && msg.metadata && msg.level && <span> · {msg.level}</span>}
                 </div>
               </div>
             </div>
@@ -242,10 +1065,22 @@ const App: React.FC = () => {
                     <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
                     <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full animate-bounce"></div>
                   </div>
-                  <span className="text-sm font-black text-indigo-600 uppercase tracking-widest">Architecting Solution...</span>
+                  <span className="text-sm font-black text-indigo-600 uppercase tracking-widest">
+                    {retryNotice || (batchProgress ? `Solving Worksheet · ${batchProgress.finished}/${batchProgress.total}` : 'Architecting Solution...')}
+                  </span>
+                  <button
+                    onClick={stopSolving}
+                    className="ml-4 px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-slate-100 rounded-lg hover:bg-red-50 hover:text-red-500 transition-all"
+                  >
+                    Stop
+                  </button>
                 </div>
                 <div className="h-2 w-48 bg-slate-100 rounded-full overflow-hidden">
-                  <div className="h-full bg-indigo-500 animate-[loading_2s_ease-in-out_infinite]" style={{width: '60%'}}></div>
+                  {batchProgress ? (
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(batchProgress.finished / batchProgress.total) * 100}%` }}></div>
+                  ) : (
+                    <div className="h-full bg-indigo-500 animate-[loading_2s_ease-in-out_infinite]" style={{width: '60%'}}></div>
+                  )}
                 </div>
               </div>
             </div>
@@ -255,7 +1090,30 @@ const App: React.FC = () => {
 
         {/* Floating Input Controls */}
         <footer className="px-4 pb-6 pt-2 bg-transparent sticky bottom-0 z-30 pointer-events-none">
-          <div className="max-w-3xl mx-auto w-full bg-white/95 backdrop-blur-xl border border-slate-200 p-3 rounded-[2.5rem] shadow-2xl pointer-events-auto flex items-center gap-2 group focus-within:ring-4 focus-within:ring-indigo-500/10 transition-all">
+          <DictationIndicator
+            listening={dictationInterim !== null}
+            interim={dictationInterim ?? ''}
+            error={dictationError}
+            lang={dictationLang}
+            onLangChange={changeDictationLang}
+            onStop={stopVoiceInput}
+            onDismissError={() => setDictationError(null)}
+          />
+          {readAloud && (
+            <ReadAloudBar
+              sections={readAloud.sections}
+              index={readAloud.index}
+              paused={readAloud.paused}
+              settings={speechSettings}
+              onSettingsChange={changeSpeechSettings}
+              onPause={pauseReadAloud}
+              onResume={resumeReadAloud}
+              onPrevious={() => moveReadAloud(-1)}
+              onNext={() => moveReadAloud(1)}
+              onStop={() => setReadAloud(null)}
+            />
+          )}
+          <div className="max-w-3xl mx-auto w-full bg-white/95 backdrop-blur-xl border border-slate-200 p-3 rounded-[2.5rem] shadow-2xl pointer-events-auto flex items-end gap-2 group focus-within:ring-4 focus-within:ring-indigo-500/10 transition-all">
             <div className="flex gap-1 pl-2">
               <button onClick={() => fileInputRef.current?.click()} className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all" title="Upload Image">
                 <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><rect width="18" height="18" x="3" y="3" rx="2" ry="2"/><circle cx="9" cy="9" r="2"/><path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21"/></svg>
@@ -275,27 +1133,28 @@ const App: React.FC = () => {
                   </button>
                 </div>
               )}
-              <input 
-                type="text" 
-                placeholder="Type any math problem (e.g. solve 2x + 5 = 15)" 
-                className="w-full bg-transparent border-none focus:ring-0 text-slate-700 font-medium px-2 py-3 placeholder:text-slate-300"
+              <MathInput
+                ref={inputRef}
+                placeholder={tutoringMsg ? "Your result for this step (e.g. 2x = 10)" : "Type any math problem (e.g. solve 2x + 5 = 15) · Shift+Enter for a new line"}
                 value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                onChange={setInputValue}
+                onSubmit={handleSend}
               />
             </div>
             
             <input type="file" hidden ref={fileInputRef} accept="image/*" onChange={(e) => {
               const file = e.target.files?.[0];
-              if (file) {
-                const reader = new FileReader();
-                reader.onloadend = () => setSelectedImage(reader.result as string);
-                reader.readAsDataURL(file);
-              }
+              if (file) setUploadFile(file);
+              e.target.value = '';
             }} />
 
             <div className="flex gap-2 pr-2">
-              <button onClick={startVoiceInput} className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-2xl transition-all">
+              <button
+                onClick={() => dictationInterim !== null ? stopVoiceInput() : startVoiceInput()}
+                disabled={!dictationSupported()}
+                className={`p-3 rounded-2xl transition-all disabled:opacity-30 disabled:cursor-not-allowed ${dictationInterim !== null ? 'bg-red-50 text-red-500' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title={!dictationSupported() ? 'Voice input is not supported in this browser' : dictationInterim !== null ? 'Stop dictation' : 'Dictate'}
+              >
                 <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
               </button>
               <button 
@@ -313,11 +1172,11 @@ const App: React.FC = () => {
       {/* Drawing Overlay */}
       {showDrawing && (
         <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
-          <div className="w-full max-w-lg">
+          <div className="w-full max-w-3xl">
             <DrawingBoard 
               onCancel={() => setShowDrawing(false)}
               onCapture={(data) => {
-                setSelectedImage(data);
+                setPendingImage(data);
                 setShowDrawing(false);
               }} 
             />
@@ -325,6 +1184,95 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Photo Preparation Overlay */}
+      {uploadFile && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-2xl">
+            <ImageCropper
+              file={uploadFile}
+              onCancel={() => setUploadFile(null)}
+              onWorksheet={(dataUrl) => {
+                setUploadFile(null);
+                setWorksheetImage(dataUrl);
+              }}
+              onDone={(dataUrl) => {
+                setUploadFile(null);
+                setPendingImage(dataUrl);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Worksheet Overlay */}
+      {worksheetImage && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-4xl">
+            <WorksheetPanel
+              image={worksheetImage}
+              onCancel={() => setWorksheetImage(null)}
+              onSolve={(problems) => {
+                if (isSolving) return;
+                setWorksheetImage(null);
+                solveWorksheet(worksheetImage, problems);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Transcription Overlay */}
+      {pendingImage && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-lg">
+            <TranscriptionPreview
+              image={pendingImage}
+              onCancel={() => setPendingImage(null)}
+              onSendImage={() => {
+                setSelectedImage(pendingImage);
+                setPendingImage(null);
+              }}
+              onConfirm={(latex) => {
+                if (isSolving) return;
+                setPendingImage(null);
+                processSolution(inputValue.trim(), pendingImage, { transcription: latex });
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Level Comparison Overlay */}
+      {comparedMsg?.metadata && comparedOriginal?.metadata && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-5xl">
+            <ExplanationDiff
+              before={{ level: comparedOriginal.level || 'standard', data: comparedOriginal.metadata }}
+              after={{ level: comparedMsg.level || 'standard', data: comparedMsg.metadata }}
+              onClose={() => setComparingId(null)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Concept Progress Overlay */}
+      {showProgress && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-3xl">
+            <ProgressDashboard onClose={() => setShowProgress(false)} />
+          </div>
+        </div>
+      )}
+
+      {/* Solution Cache Debug Overlay */}
+      {showCacheDebug && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-lg">
+            <CacheDebugPanel onClose={() => setShowCacheDebug(false)} />
+          </div>
+        </div>
+      )}
+
       <style>{`
         @keyframes loading {
           0% { transform: translateX(-100%); }
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import {
+  clearSolutionCache,
+  countCachedSolutions,
+  getSolutionCacheStats,
+  resetSolutionCacheStats,
+  SOLUTION_CACHE_MAX_ENTRIES,
+  SOLUTION_CACHE_TTL_MS,
+  subscribeSolutionCacheStats
+} from '../services/solutionCache';
+
+interface CacheDebugPanelProps {
+  onClose: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="p-4 bg-white rounded-2xl border border-slate-100">
+    <div className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-1">{label}</div>
+    <div className="text-xl font-black text-slate-800">{value}</div>
+  </div>
+);
+
+// Counters of the local solution cache, for checking how many solver calls it saves.
+const CacheDebugPanel: React.FC<CacheDebugPanelProps> = ({ onClose }) => {
+  const [stats, setStats] = useState(getSolutionCacheStats);
+  const [entries, setEntries] = useState<number | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      setStats(getSolutionCacheStats());
+      countCachedSolutions().then(setEntries).catch(() => setEntries(null));
+    };
+    refresh();
+    return subscribeSolutionCacheStats(refresh);
+  }, []);
+
+  const lookups = stats.hits + stats.misses;
+
+  const clearCache = async () => {
+    await clearSolutionCache();
+    setEntries(0);
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-[2rem] shadow-2xl border border-slate-200">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-500">Solution Cache</span>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-3 gap-3">
+          <Stat label="Hits" value={stats.hits} />
+          <Stat label="Misses" value={stats.misses} />
+          <Stat label="Hit rate" value={lookups ? `${Math.round((stats.hits / lookups) * 100)}%` : '—'} />
+          <Stat label="Writes" value={stats.writes} />
+          <Stat label="Evicted" value={stats.evictions} />
+          <Stat label="Expired" value={stats.expired} />
+        </div>
+        <p className="text-xs text-slate-500 leading-relaxed">
+          {entries === null ? 'Entry count unavailable' : `${entries} of ${SOLUTION_CACHE_MAX_ENTRIES} entries`} · kept for {Math.round(SOLUTION_CACHE_TTL_MS / 86400000)} days · counters reset on reload
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={resetSolutionCacheStats}
+            className="flex-1 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+          >
+            Reset Counters
+          </button>
+          <button
+            onClick={() => clearCache().catch(err => console.error("Cache clear error:", err))}
+            className="flex-1 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl border border-red-200 text-red-400 hover:text-red-600 hover:bg-red-50 transition-all"
+          >
+            Clear Cache
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheDebugPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DICTATION_LANGUAGES } from '../services/dictation';
+
+interface DictationIndicatorProps {
+  listening: boolean;
+  interim: string;
+  error: string | null;
+  lang: string;
+  onLangChange: (lang: string) => void;
+  onStop: () => void;
+  onDismissError: () => void;
+}
+
+/** Shows that the microphone is on, what is being heard, and the dictation language. */
+const DictationIndicator: React.FC<DictationIndicatorProps> = ({ listening, interim, error, lang, onLangChange, onStop, onDismissError }) => {
+  if (!listening && error) {
+    return (
+      <div className="max-w-3xl mx-auto w-full mb-2 px-4 py-2 bg-red-50 border border-red-200 rounded-3xl pointer-events-auto flex items-center gap-3 animate-in slide-in-from-bottom-2 duration-300">
+        <span className="flex-1 text-xs font-medium text-red-600">{error}</span>
+        <button onClick={onDismissError} className="text-[10px] font-black uppercase tracking-widest text-red-400 hover:text-red-600">Dismiss</button>
+      </div>
+    );
+  }
+
+  if (!listening) return null;
+
+  return (
+    <div className="max-w-3xl mx-auto w-full mb-2 px-4 py-2 bg-white/95 backdrop-blur-xl border border-red-100 rounded-3xl shadow-xl pointer-events-auto flex items-center gap-3 animate-in slide-in-from-bottom-2 duration-300">
+      <span className="relative flex w-3 h-3 shrink-0">
+        <span className="absolute inline-flex w-full h-full rounded-full bg-red-400 opacity-75 animate-ping" />
+        <span className="relative inline-flex w-3 h-3 rounded-full bg-red-500" />
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500">Listening</p>
+        <p className="text-xs text-slate-500 italic truncate">{interim || 'Say a problem, e.g. "x squared plus three x minus four equals zero"'}</p>
+      </div>
+      <select
+        value={lang}
+        onChange={(e) => onLangChange(e.target.value)}
+        className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+        title="Dictation language"
+      >
+        {DICTATION_LANGUAGES.map(({ tag, label }) => <option key={tag} value={tag}>{label}</option>)}
+      </select>
+      <button
+        onClick={onStop}
+        className="px-3 py-1.5 bg-red-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-red-600 transition-all active:scale-95"
+      >
+        Stop
+      </button>
+    </div>
+  );
+};
+
+export default DictationIndicator;
@@ -1,109 +1,230 @@
 
 import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { InkStroke } from '../types';
+import { drawSegment, exportStrokesPng, renderStrokes, strokeHit, strokesBounds } from '../services/inkStrokes';
 
 interface DrawingBoardProps {
   onCapture: (dataUrl: string) => void;
   onCancel: () => void;
+  submitLabel?: string;
 }
 
-const DrawingBoard: React.FC<DrawingBoardProps> = ({ onCapture, onCancel }) => {
+type Tool = 'pen' | 'eraser';
+
+const PEN_COLORS = ['#0f172a', '#4f46e5', '#dc2626', '#059669'];
+const PEN_SIZES = [2, 4, 8];
+const ERASER_RADIUS = 10;
+const MIN_CANVAS_HEIGHT = 320;
+// When ink gets this close to the bottom edge, the canvas grows by GROW_STEP.
+const GROW_MARGIN = 120;
+const GROW_STEP = 320;
+
+const DrawingBoard: React.FC<DrawingBoardProps> = ({ onCapture, onCancel, submitLabel = "Solve Drawing" }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [ctx, setCtx] = useState<CanvasRenderingContext2D | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The stroke being drawn lives outside React state so each point doesn't re-render.
+  const activeStrokeRef = useRef<InkStroke | null>(null);
+  const erasingRef = useRef<{ pushedUndo: boolean } | null>(null);
+
+  const [strokes, setStrokes] = useState<InkStroke[]>([]);
+  const [undoStack, setUndoStack] = useState<InkStroke[][]>([]);
+  const [redoStack, setRedoStack] = useState<InkStroke[][]>([]);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState(PEN_COLORS[0]);
+  const [size, setSize] = useState(PEN_SIZES[1]);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [canvasHeight, setCanvasHeight] = useState(() => Math.max(MIN_CANVAS_HEIGHT, Math.round(window.innerHeight * 0.5)));
 
+  // Track the container so the canvas always spans the available width.
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const context = canvas.getContext('2d');
-      if (context) {
-        context.lineCap = 'round';
-        context.lineJoin = 'round';
-        context.strokeStyle = '#000000';
-        context.lineWidth = 3;
-        setCtx(context);
-        
-        // Fill white background
-        context.fillStyle = '#ffffff';
-        context.fillRect(0, 0, canvas.width, canvas.height);
-      }
-    }
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setCanvasWidth(container.clientWidth));
+    observer.observe(container);
+    setCanvasWidth(container.clientWidth);
+    return () => observer.disconnect();
   }, []);
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!ctx) return;
-    setIsDrawing(true);
-    const pos = getPos(e);
-    ctx.beginPath();
-    ctx.moveTo(pos.x, pos.y);
-  };
+  // Redraw from the stroke list at device resolution whenever it or the size changes.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvasWidth === 0) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvasWidth * scale);
+    canvas.height = Math.round(canvasHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (ctx) renderStrokes(ctx, strokes, canvasWidth, canvasHeight, scale);
+  }, [strokes, canvasWidth, canvasHeight]);
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !ctx) return;
-    const pos = getPos(e);
-    ctx.lineTo(pos.x, pos.y);
-    ctx.stroke();
+  const commit = (next: InkStroke[]) => {
+    setUndoStack(prev => [...prev, strokes]);
+    setRedoStack([]);
+    setStrokes(next);
   };
 
-  const stopDrawing = () => {
-    setIsDrawing(false);
-    if (ctx) ctx.closePath();
-  };
+  const undo = useCallback(() => {
+    if (undoStack.length === 0) return;
+    setRedoStack(prev => [...prev, strokes]);
+    setStrokes(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  }, [undoStack, strokes]);
 
-  const getPos = (e: React.MouseEvent | React.TouchEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+  const redo = useCallback(() => {
+    if (redoStack.length === 0) return;
+    setUndoStack(prev => [...prev, strokes]);
+    setStrokes(redoStack[redoStack.length - 1]);
+    setRedoStack(prev => prev.slice(0, -1));
+  }, [redoStack, strokes]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
     return {
-      x: clientX - rect.left,
-      y: clientY - rect.top
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      // Mice always report 0 or 0.5; only pens and some touch screens measure pressure.
+      pressure: e.pointerType === 'mouse' || !e.pressure ? 0.5 : e.pressure
     };
   };
 
+  const eraseAt = (x: number, y: number) => {
+    const remaining = strokes.filter(stroke => !strokeHit(stroke, x, y, ERASER_RADIUS));
+    if (remaining.length === strokes.length) return;
+    // One eraser drag is one undo step, however many strokes it removes.
+    if (erasingRef.current && !erasingRef.current.pushedUndo) {
+      erasingRef.current.pushedUndo = true;
+      commit(remaining);
+    } else {
+      setStrokes(remaining);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 && e.pointerType === 'mouse') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    if (tool === 'eraser') {
+      erasingRef.current = { pushedUndo: false };
+      eraseAt(point.x, point.y);
+      return;
+    }
+    activeStrokeRef.current = { points: [point], color, width: size };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (erasingRef.current) {
+      const point = getPoint(e);
+      eraseAt(point.x, point.y);
+      return;
+    }
+    const stroke = activeStrokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx) return;
+    const point = getPoint(e);
+    const last = stroke.points[stroke.points.length - 1];
+    stroke.points.push(point);
+    drawSegment(ctx, stroke, last, point);
+  };
+
+  const handlePointerUp = () => {
+    erasingRef.current = null;
+    const stroke = activeStrokeRef.current;
+    activeStrokeRef.current = null;
+    if (!stroke) return;
+    commit([...strokes, stroke]);
+    const bounds = strokesBounds([stroke]);
+    if (bounds && bounds.maxY > canvasHeight - GROW_MARGIN) setCanvasHeight(h => h + GROW_STEP);
+  };
+
   const clear = () => {
-    if (!ctx || !canvasRef.current) return;
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+    if (strokes.length > 0) commit([]);
   };
 
   const capture = () => {
-    if (canvasRef.current) {
-      onCapture(canvasRef.current.toDataURL('image/png'));
-    }
+    const dataUrl = exportStrokesPng(strokes, { scale: Math.max(2, window.devicePixelRatio || 1) });
+    if (dataUrl) onCapture(dataUrl);
   };
 
+  const toolButton = (active: boolean) =>
+    `p-2 rounded-lg transition-all ${active ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`;
+
   return (
     <div className="flex flex-col items-center p-4 bg-white rounded-xl shadow-lg border border-slate-200">
       <div className="flex justify-between w-full mb-3 px-1">
         <h3 className="text-sm font-semibold text-slate-700">Draw your problem</h3>
         <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-500">Cancel</button>
       </div>
-      <canvas
-        ref={canvasRef}
-        width={350}
-        height={250}
-        className="border border-slate-300 rounded-lg cursor-crosshair bg-white touch-none"
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={draw}
-        onTouchEnd={stopDrawing}
-      />
+
+      <div className="flex flex-wrap items-center gap-2 w-full mb-3">
+        <button onClick={() => setTool('pen')} className={toolButton(tool === 'pen')} title="Pen">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M12 20h9"/><path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"/></svg>
+        </button>
+        <button onClick={() => setTool('eraser')} className={toolButton(tool === 'eraser')} title="Eraser (removes whole strokes)">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="m7 21-4.3-4.3c-1-1-1-2.5 0-3.4l9.6-9.6c1-1 2.5-1 3.4 0l5.6 5.6c1 1 1 2.5 0 3.4L13 21"/><path d="M22 21H7"/><path d="m5 11 9 9"/></svg>
+        </button>
+
+        <div className="w-px h-6 bg-slate-200 mx-1" />
+        {PEN_COLORS.map(c => (
+          <button
+            key={c}
+            onClick={() => { setColor(c); setTool('pen'); }}
+            className={`w-6 h-6 rounded-full border-2 transition-all ${color === c && tool === 'pen' ? 'border-indigo-400 scale-110' : 'border-white shadow'}`}
+            style={{ backgroundColor: c }}
+            title="Pen color"
+          />
+        ))}
+
+        <div className="w-px h-6 bg-slate-200 mx-1" />
+        {PEN_SIZES.map(s => (
+          <button key={s} onClick={() => { setSize(s); setTool('pen'); }} className={toolButton(size === s && tool === 'pen')} title={`Pen size ${s}`}>
+            <span className="block rounded-full bg-current" style={{ width: s + 2, height: s + 2 }} />
+          </button>
+        ))}
+
+        <div className="flex-1" />
+        <button onClick={undo} disabled={undoStack.length === 0} className={`${toolButton(false)} disabled:opacity-30`} title="Undo (Ctrl+Z)">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-15-6.7L3 13"/></svg>
+        </button>
+        <button onClick={redo} disabled={redoStack.length === 0} className={`${toolButton(false)} disabled:opacity-30`} title="Redo (Ctrl+Shift+Z)">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 15-6.7L21 13"/></svg>
+        </button>
+      </div>
+
+      <div ref={containerRef} className="w-full max-h-[60vh] overflow-y-auto border border-slate-300 rounded-lg">
+        <canvas
+          ref={canvasRef}
+          style={{ width: canvasWidth, height: canvasHeight }}
+          className={`block bg-white touch-none ${tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
       <div className="flex gap-2 mt-4 w-full">
-        <button 
+        <button
           onClick={clear}
           className="flex-1 py-2 px-4 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium"
         >
           Clear
         </button>
-        <button 
+        <button
           onClick={capture}
-          className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium"
+          disabled={strokes.length === 0}
+          className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-30 transition-colors text-sm font-medium"
         >
-          Solve Drawing
+          {submitLabel}
         </button>
       </div>
     </div>
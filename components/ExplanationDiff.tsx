@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { ExplanationLevel, SolveResponse } from '../types';
+import { DiffPart, diffWords } from '../services/textDiff';
+import MathRenderer from './MathRenderer';
+
+interface ExplanationDiffProps {
+  before: { level: ExplanationLevel; data: SolveResponse };
+  after: { level: ExplanationLevel; data: SolveResponse };
+  onClose: () => void;
+}
+
+// One side of a diff: the original shows what was removed, the new version what was added.
+const DiffText: React.FC<{ parts: DiffPart[]; side: 'before' | 'after' }> = ({ parts, side }) => (
+  <p className="text-slate-600 text-xs leading-relaxed">
+    {parts.map((part, idx) => {
+      if (part.type === 'same') return <span key={idx}>{part.text}</span>;
+      if (side === 'before' && part.type === 'removed') {
+        return <span key={idx} className="bg-red-100 text-red-700 rounded px-0.5 line-through decoration-red-300">{part.text}</span>;
+      }
+      if (side === 'after' && part.type === 'added') {
+        return <span key={idx} className="bg-emerald-100 text-emerald-800 rounded px-0.5">{part.text}</span>;
+      }
+      return null;
+    })}
+  </p>
+);
+
+const Row: React.FC<{ label: string; left: React.ReactNode; right: React.ReactNode }> = ({ label, left, right }) => (
+  <div>
+    <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-2">{label}</h4>
+    <div className="grid grid-cols-2 gap-4">
+      <div className="p-4 bg-white rounded-2xl border border-slate-100 space-y-3">{left}</div>
+      <div className="p-4 bg-white rounded-2xl border border-slate-100 space-y-3">{right}</div>
+    </div>
+  </div>
+);
+
+const ExplanationDiff: React.FC<ExplanationDiffProps> = ({ before, after, onClose }) => {
+  const stepCount = Math.max(before.data.steps.length, after.data.steps.length);
+
+  const diffs = useMemo(() => ({
+    description: diffWords(before.data.description, after.data.description),
+    steps: Array.from({ length: stepCount }, (_, idx) =>
+      diffWords(before.data.steps[idx]?.explanation || '', after.data.steps[idx]?.explanation || '')
+    ),
+    tip: diffWords(before.data.tutoringTip || '', after.data.tutoringTip || '')
+  }), [before, after, stepCount]);
+
+  return (
+    <div className="bg-slate-50 rounded-[2rem] shadow-2xl border border-slate-200 flex flex-col max-h-[90vh]">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+        <div className="grid grid-cols-2 gap-4 flex-1 mr-4">
+          <span className="text-xs font-black uppercase tracking-widest text-slate-500">Original · {before.level}</span>
+          <span className="text-xs font-black uppercase tracking-widest text-indigo-600">Re-explained · {after.level}</span>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-6 space-y-6">
+        <Row
+          label="Problem Analysis"
+          left={<DiffText parts={diffs.description} side="before" />}
+          right={<DiffText parts={diffs.description} side="after" />}
+        />
+
+        {diffs.steps.map((parts, idx) => {
+          const left = before.data.steps[idx];
+          const right = after.data.steps[idx];
+          const renderStep = (step: typeof left, side: 'before' | 'after') => step ? (
+            <>
+              <h5 className="font-bold text-slate-800 text-sm">{step.title}</h5>
+              <DiffText parts={parts} side={side} />
+              {step.math && <MathRenderer tex={step.math} className="text-slate-800 text-sm" />}
+            </>
+          ) : (
+            <p className="text-xs italic text-slate-300">No matching step</p>
+          );
+          return <Row key={idx} label={`Step ${idx + 1}`} left={renderStep(left, 'before')} right={renderStep(right, 'after')} />;
+        })}
+
+        <Row
+          label="Mathematical Result"
+          left={<MathRenderer tex={before.data.finalAnswer} className="font-bold" />}
+          right={<MathRenderer tex={after.data.finalAnswer} className="font-bold" />}
+        />
+
+        {(before.data.tutoringTip || after.data.tutoringTip) && (
+          <Row
+            label="Tutor's Advice"
+            left={<DiffText parts={diffs.tip} side="before" />}
+            right={<DiffText parts={diffs.tip} side="after" />}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExplanationDiff;
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GraphSpec } from '../types';
+import {
+  answerPointIndices,
+  compileGraphExpression,
+  initialViewport,
+  niceTicks,
+  panViewport,
+  PlotPoint,
+  regionOutline,
+  sampleFunction,
+  Viewport,
+  zoomViewport
+} from '../services/graphPlot';
+import { formatNumber } from '../services/answerVerifier';
+import MathRenderer from './MathRenderer';
+
+interface FunctionGraphProps {
+  graph: GraphSpec;
+  finalAnswer: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const CURVE_COLORS = ['#4f46e5', '#db2777', '#0891b2', '#ca8a04', '#7c3aed'];
+// Hovering within this many pixels of a point shows its label.
+const POINT_HOVER_RADIUS = 12;
+const ZOOM_STEP = 0.8;
+
+// Tick labels with only as many decimals as the tick spacing needs.
+const formatTick = (value: number) => formatNumber(Number(value.toPrecision(6)));
+
+/**
+ * Plots the curves, points and regions of a solution locally from their
+ * expressions. Drag to pan, scroll or use the buttons to zoom.
+ */
+const FunctionGraph: React.FC<FunctionGraphProps> = ({ graph, finalAnswer }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: Viewport } | null>(null);
+  const startView = useMemo(() => initialViewport(graph), [graph]);
+  const [view, setView] = useState(startView);
+  const [hover, setHover] = useState<PlotPoint | null>(null);
+
+  useEffect(() => setView(startView), [startView]);
+
+  const curves = useMemo(() => graph.functions.map(fn => compileGraphExpression(fn.expression)), [graph]);
+  const answerPoints = useMemo(() => answerPointIndices(graph, finalAnswer), [graph, finalAnswer]);
+
+  const toScreenX = (x: number) => ((x - view.xMin) / (view.xMax - view.xMin)) * WIDTH;
+  const toScreenY = (y: number) => HEIGHT - ((y - view.yMin) / (view.yMax - view.yMin)) * HEIGHT;
+  const pathOf = (points: PlotPoint[]) =>
+    points.map((p, idx) => `${idx === 0 ? 'M' : 'L'}${toScreenX(p.x).toFixed(1)},${toScreenY(p.y).toFixed(1)}`).join('');
+
+  // Pointer position in graph coordinates; the SVG is scaled to its container.
+  const graphPointAt = (clientX: number, clientY: number, current = view): PlotPoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return null;
+    return {
+      x: current.xMin + ((clientX - rect.left) / rect.width) * (current.xMax - current.xMin),
+      y: current.yMax - ((clientY - rect.top) / rect.height) * (current.yMax - current.yMin)
+    };
+  };
+
+  // React registers wheel listeners as passive, which can't stop the page from scrolling.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(current => {
+        const at = graphPointAt(e.clientX, e.clientY, current);
+        return zoomViewport(current, e.deltaY > 0 ? 1 / ZOOM_STEP : ZOOM_STEP, at?.x, at?.y);
+      });
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (drag && rect) {
+      const dx = ((drag.x - e.clientX) / rect.width) * (drag.view.xMax - drag.view.xMin);
+      const dy = ((e.clientY - drag.y) / rect.height) * (drag.view.yMax - drag.view.yMin);
+      setView(panViewport(drag.view, dx, dy));
+    }
+    setHover(graphPointAt(e.clientX, e.clientY));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  const xTicks = niceTicks(view.xMin, view.xMax);
+  const yTicks = niceTicks(view.yMin, view.yMax, 6);
+  const axisX = Math.min(Math.max(toScreenX(0), 0), WIDTH);
+  const axisY = Math.min(Math.max(toScreenY(0), 0), HEIGHT);
+
+  // Screen pixels per viewBox unit, for hit-testing points at their on-screen size.
+  const rect = svgRef.current?.getBoundingClientRect();
+  const scale = rect && rect.width > 0 ? rect.width / WIDTH : 1;
+  const hoveredPoint = hover
+    ? graph.points.findIndex(p => Math.hypot(toScreenX(p.x) - toScreenX(hover.x), toScreenY(p.y) - toScreenY(hover.y)) * scale <= POINT_HOVER_RADIUS)
+    : -1;
+
+  return (
+    <div className="space-y-3">
+      <div className="relative bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto touch-none cursor-crosshair select-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onPointerLeave={() => { endDrag(); setHover(null); }}
+        >
+          {/* Grid */}
+          {xTicks.map(x => <line key={`gx${x}`} x1={toScreenX(x)} x2={toScreenX(x)} y1={0} y2={HEIGHT} stroke="#f1f5f9" />)}
+          {yTicks.map(y => <line key={`gy${y}`} y1={toScreenY(y)} y2={toScreenY(y)} x1={0} x2={WIDTH} stroke="#f1f5f9" />)}
+
+          {/* Shaded regions */}
+          {graph.regions.map((region, idx) => {
+            const outline = regionOutline(region, view);
+            return outline.length > 0 && <path key={`r${idx}`} d={`${pathOf(outline)}Z`} fill="#6366f1" fillOpacity={0.12} />;
+          })}
+
+          {/* Axes */}
+          <line x1={0} x2={WIDTH} y1={axisY} y2={axisY} stroke="#94a3b8" strokeWidth={1.5} />
+          <line y1={0} y2={HEIGHT} x1={axisX} x2={axisX} stroke="#94a3b8" strokeWidth={1.5} />
+          {xTicks.filter(x => x !== 0).map(x => (
+            <text key={`tx${x}`} x={toScreenX(x)} y={Math.min(axisY + 14, HEIGHT - 4)} textAnchor="middle" className="fill-slate-400 text-[10px]">{formatTick(x)}</text>
+          ))}
+          {yTicks.filter(y => y !== 0).map(y => (
+            <text key={`ty${y}`} x={Math.max(axisX - 4, 24)} y={toScreenY(y) + 3} textAnchor="end" className="fill-slate-400 text-[10px]">{formatTick(y)}</text>
+          ))}
+
+          {/* Curves */}
+          {curves.map((f, idx) => f && sampleFunction(f, view).map((segment, s) => (
+            <path key={`c${idx}-${s}`} d={pathOf(segment)} fill="none" stroke={CURVE_COLORS[idx % CURVE_COLORS.length]} strokeWidth={2.5} strokeLinejoin="round" />
+          )))}
+
+          {/* Hover crosshair */}
+          {hover && (
+            <line x1={toScreenX(hover.x)} x2={toScreenX(hover.x)} y1={0} y2={HEIGHT} stroke="#cbd5e1" strokeDasharray="4 4" />
+          )}
+          {hover && curves.map((f, idx) => {
+            const y = f?.(hover.x);
+            return f && Number.isFinite(y) && (
+              <circle key={`h${idx}`} cx={toScreenX(hover.x)} cy={toScreenY(y!)} r={4} fill={CURVE_COLORS[idx % CURVE_COLORS.length]} />
+            );
+          })}
+
+          {/* Points of interest */}
+          {graph.points.map((point, idx) => {
+            const isAnswer = answerPoints.includes(idx);
+            return (
+              <g key={`p${idx}`}>
+                {isAnswer && <circle cx={toScreenX(point.x)} cy={toScreenY(point.y)} r={13} fill="#10b981" fillOpacity={0.18} stroke="#10b981" strokeWidth={2} className="animate-pulse" />}
+                <circle
+                  cx={toScreenX(point.x)}
+                  cy={toScreenY(point.y)}
+                  r={isAnswer ? 6 : 5}
+                  fill={isAnswer ? '#10b981' : '#ffffff'}
+                  stroke={isAnswer ? '#047857' : '#0f172a'}
+                  strokeWidth={2}
+                />
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Readout */}
+        {hover && (
+          <div className="absolute top-3 left-3 px-3 py-2 bg-slate-900/90 text-white rounded-xl text-[11px] font-mono space-y-0.5 pointer-events-none">
+            {hoveredPoint !== -1 ? (
+              <>
+                <div className="font-sans font-bold">
+                  {graph.points[hoveredPoint].label || graph.points[hoveredPoint].kind || 'Point'}
+                  {answerPoints.includes(hoveredPoint) && <span className="text-emerald-300"> · Answer</span>}
+                </div>
+                <div>({formatNumber(graph.points[hoveredPoint].x)}, {formatNumber(graph.points[hoveredPoint].y)})</div>
+              </>
+            ) : (
+              <>
+                <div>x = {formatNumber(hover.x)}</div>
+                {curves.map((f, idx) => {
+                  const y = f?.(hover.x);
+                  return f && (
+                    <div key={idx} style={{ color: CURVE_COLORS[idx % CURVE_COLORS.length] }} className="brightness-150">
+                      {graph.functions[idx].label || `f${idx + 1}`}(x) = {Number.isFinite(y) ? formatNumber(y!) : 'undefined'}
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="absolute top-3 right-3 flex gap-1">
+          <button onClick={() => setView(v => zoomViewport(v, ZOOM_STEP))} className="w-8 h-8 bg-white/90 border border-slate-200 rounded-lg text-slate-500 hover:text-indigo-600 font-bold" title="Zoom in">+</button>
+          <button onClick={() => setView(v => zoomViewport(v, 1 / ZOOM_STEP))} className="w-8 h-8 bg-white/90 border border-slate-200 rounded-lg text-slate-500 hover:text-indigo-600 font-bold" title="Zoom out">−</button>
+          <button onClick={() => setView(startView)} className="px-2 h-8 bg-white/90 border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600" title="Reset view">Reset</button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-5 gap-y-2 px-1 items-center">
+        {graph.functions.map((fn, idx) => (
+          <div key={idx} className="flex items-center gap-2 text-xs text-slate-600">
+            <span className="w-4 h-1 rounded-full" style={{ backgroundColor: CURVE_COLORS[idx % CURVE_COLORS.length] }} />
+            {fn.label && <span className="font-bold">{fn.label}:</span>}
+            <MathRenderer tex={`$${fn.expression.trim()}$`} />
+          </div>
+        ))}
+        {answerPoints.length > 0 && (
+          <div className="flex items-center gap-2 text-xs text-emerald-700 font-bold">
+            <span className="w-3 h-3 rounded-full bg-emerald-500" />
+            Answer {answerPoints.map(idx => `(${formatNumber(graph.points[idx].x)}, ${formatNumber(graph.points[idx].y)})`).join(', ')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FunctionGraph;
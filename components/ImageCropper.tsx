@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CropRect, ImageSource, formatBytes, imageSize, loadOrientedImage, preprocessImage } from '../services/imagePreprocess';
+
+interface ImageCropperProps {
+  file: File;
+  onDone: (dataUrl: string) => void;
+  // Solve every problem on the page instead of a single one.
+  onWorksheet?: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+// Drags shorter than this (in screen pixels) are treated as clicks, not crops.
+const MIN_CROP_SIZE = 12;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const rectFrom = (a: Point, b: Point): CropRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y)
+});
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ file, onDone, onWorksheet, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<Point | null>(null);
+
+  const [source, setSource] = useState<ImageSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [displayScale, setDisplayScale] = useState(1);
+  // Selection in display pixels while dragging; the committed crop is in source pixels.
+  const [selection, setSelection] = useState<CropRect | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [highContrast, setHighContrast] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOrientedImage(file)
+      .then(image => { if (!cancelled) setSource(image); })
+      .catch(err => {
+        console.error("Image decode error:", err);
+        if (!cancelled) setError("This file could not be opened as an image.");
+      });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Fit the image into the dialog and paint it once it has loaded.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!source || !canvas || !container) return;
+    const { width, height } = imageSize(source);
+    const scale = Math.min(1, container.clientWidth / width, (window.innerHeight * 0.5) / height);
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    setDisplayScale(scale);
+  }, [source]);
+
+  const prepared = useMemo(
+    () => source ? preprocessImage(source, { crop, highContrast }) : null,
+    [source, crop, highContrast]
+  );
+
+  const getPoint = (e: React.PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(rect.width, e.clientX - rect.left)),
+      y: Math.max(0, Math.min(rect.height, e.clientY - rect.top))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getPoint(e);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStartRef.current) return;
+    setSelection(rectFrom(dragStartRef.current, getPoint(e)));
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (!selection || selection.width < MIN_CROP_SIZE || selection.height < MIN_CROP_SIZE) {
+      setSelection(null);
+      setCrop(null);
+      return;
+    }
+    setCrop({
+      x: selection.x / displayScale,
+      y: selection.y / displayScale,
+      width: selection.width / displayScale,
+      height: selection.height / displayScale
+    });
+  };
+
+  const resetCrop = () => {
+    setSelection(null);
+    setCrop(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-5 bg-white rounded-[2rem] shadow-2xl border border-slate-200">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Crop to one problem</h3>
+        <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-500">Cancel</button>
+      </div>
+
+      <div ref={containerRef} className="w-full flex justify-center">
+        {error ? (
+          <p className="text-xs text-red-500 font-medium py-8">{error}</p>
+        ) : (
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              className="block rounded-xl cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {selection && (
+              <div
+                className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none rounded-sm shadow-[0_0_0_9999px_rgba(15,23,42,0.35)]"
+                style={{ left: selection.x, top: selection.y, width: selection.width, height: selection.height }}
+              />
+            )}
+            {!source && <p className="text-xs text-slate-400 py-8">Loading image...</p>}
+          </div>
+        )}
+      </div>
+
+      <p className="text-[10px] text-slate-400 px-1">Drag over the image to crop it; click once to use the whole image.</p>
+
+      <div className="flex flex-wrap items-center gap-3 px-1">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={highContrast} onChange={(e) => setHighContrast(e.target.checked)} className="accent-indigo-600" />
+          High-contrast grayscale
+        </label>
+        {crop && (
+          <button onClick={resetCrop} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600">
+            Reset crop
+          </button>
+        )}
+        {prepared && (
+          <span className="ml-auto text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            {prepared.width}×{prepared.height} · {prepared.mimeType.replace('image/', '')} · {formatBytes(prepared.bytes)}
+            <span className="opacity-60"> (from {formatBytes(file.size)})</span>
+          </span>
+        )}
+      </div>
+
+      {prepared && highContrast && (
+        <img src={prepared.dataUrl} className="max-h-32 object-contain rounded-xl border border-slate-100" alt="Processed preview" />
+      )}
+
+      <div className="flex gap-2">
+        {onWorksheet && (
+          <button
+            onClick={() => prepared && onWorksheet(prepared.dataUrl)}
+            disabled={!prepared}
+            className="py-2 px-4 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-30 transition-colors text-sm font-medium"
+          >
+            Whole Worksheet
+          </button>
+        )}
+        <button
+          onClick={() => prepared && onDone(prepared.dataUrl)}
+          disabled={!prepared}
+          className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-30 transition-colors text-sm font-medium"
+        >
+          Use Image
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,172 @@
+import React, { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { hasMath, previewLine } from '../services/asciiMath';
+import MathRenderer from './MathRenderer';
+
+interface MathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+}
+
+export interface MathInputHandle {
+  focus: () => void;
+}
+
+interface PaletteItem {
+  label: string;
+  // Inserted at the cursor; `¦` marks where the cursor (or the selected text) goes.
+  template: string;
+  title: string;
+  // KeyboardEvent.code of the Alt+key shortcut.
+  shortcut?: string;
+}
+
+const CURSOR = '¦';
+
+const STRUCTURES: PaletteItem[] = [
+  { label: '$\\frac{a}{b}$', template: '\\frac{¦}{}', title: 'Fraction (Alt+/)', shortcut: 'Slash' },
+  { label: '$x^n$', template: '^{¦}', title: 'Power (Alt+6)', shortcut: 'Digit6' },
+  { label: '$x_n$', template: '_{¦}', title: 'Subscript (Alt+-)', shortcut: 'Minus' },
+  { label: '$\\sqrt{x}$', template: '\\sqrt{¦}', title: 'Square root (Alt+R)', shortcut: 'KeyR' },
+  { label: '$\\sqrt[n]{x}$', template: '\\sqrt[¦]{}', title: 'n-th root' },
+  { label: '$\\int$', template: '\\int_{¦}^{} \\, dx', title: 'Integral (Alt+I)', shortcut: 'KeyI' },
+  { label: '$\\sum$', template: '\\sum_{n=¦}^{}', title: 'Sum (Alt+S)', shortcut: 'KeyS' },
+  { label: '$\\lim$', template: '\\lim_{x \\to ¦}', title: 'Limit (Alt+L)', shortcut: 'KeyL' },
+  { label: '$\\frac{d}{dx}$', template: '\\frac{d}{dx}\\left(¦\\right)', title: 'Derivative (Alt+D)', shortcut: 'KeyD' },
+  { label: '$\\begin{pmatrix}a&b\\\\c&d\\end{pmatrix}$', template: '\\begin{pmatrix} ¦ & \\\\  & \\end{pmatrix}', title: 'Matrix (Alt+M)', shortcut: 'KeyM' },
+  { label: '$\\begin{cases}\\end{cases}$', template: '\\begin{cases} ¦ \\\\  \\end{cases}', title: 'System of equations' }
+];
+
+const SYMBOLS: PaletteItem[] = [
+  ...['alpha', 'beta', 'gamma', 'delta', 'theta', 'lambda', 'mu', 'pi', 'sigma', 'phi', 'omega', 'Delta', 'Sigma', 'Omega']
+    .map((name): PaletteItem => ({
+      label: `$\\${name}$`,
+      template: `\\${name} ¦`,
+      ...(name === 'pi' ? { title: 'pi (Alt+P)', shortcut: 'KeyP' } : { title: name })
+    })),
+  { label: '$\\le$', template: '\\le ¦', title: 'Less than or equal' },
+  { label: '$\\ge$', template: '\\ge ¦', title: 'Greater than or equal' },
+  { label: '$\\ne$', template: '\\ne ¦', title: 'Not equal' },
+  { label: '$\\pm$', template: '\\pm ¦', title: 'Plus or minus' },
+  { label: '$\\cdot$', template: '\\cdot ¦', title: 'Times' },
+  { label: '$\\infty$', template: '\\infty¦', title: 'Infinity' },
+  { label: '$^\\circ$', template: '^\\circ¦', title: 'Degrees' }
+];
+
+const SHORTCUTS = new Map([...STRUCTURES, ...SYMBOLS].filter(item => item.shortcut).map(item => [item.shortcut!, item]));
+
+const MAX_ROWS = 6;
+
+/**
+ * Multi-line composer for math problems. Enter sends and Shift+Enter starts a
+ * new line (for systems of equations). ASCII math such as `x^2/2` or
+ * `sqrt(x)` is shown converted in the live preview; the palette and Alt
+ * shortcuts insert LaTeX templates at the cursor.
+ */
+const MathInput = forwardRef<MathInputHandle, MathInputProps>(({ value, onChange, onSubmit, placeholder }, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [showPalette, setShowPalette] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    focus: () => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }), []);
+
+  const preview = useMemo(() => hasMath(value) ? value.split('\n').map(previewLine) : [], [value]);
+
+  // Puts the selection into the template's first slot, so selecting `x+1` and choosing √ gives \sqrt{x+1}.
+  const insert = (item: PaletteItem) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const selected = value.slice(selectionStart, selectionEnd);
+    const [before, after] = item.template.split(CURSOR);
+    const next = value.slice(0, selectionStart) + before + selected + (after ?? '') + value.slice(selectionEnd);
+    onChange(next);
+    const cursor = selectionStart + before.length + selected.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onSubmit();
+      return;
+    }
+    const shortcut = e.altKey && !e.ctrlKey && !e.metaKey ? SHORTCUTS.get(e.code) : undefined;
+    if (shortcut) {
+      e.preventDefault();
+      insert(shortcut);
+    }
+  };
+
+  const rows = Math.min(MAX_ROWS, Math.max(1, value.split('\n').length));
+
+  return (
+    <div className="space-y-2">
+      {showPalette && (
+        <div className="p-2 bg-slate-50 border border-slate-200 rounded-2xl space-y-1.5">
+          {[STRUCTURES, SYMBOLS].map((items, row) => (
+            <div key={row} className="flex flex-wrap gap-1">
+              {items.map(item => (
+                <button
+                  key={item.template}
+                  type="button"
+                  title={item.title}
+                  // Keep the textarea's selection, which a focus change would clear.
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insert(item)}
+                  className="min-w-[2.25rem] h-9 px-2 bg-white border border-slate-200 rounded-lg text-slate-700 text-xs hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-center"
+                >
+                  <MathRenderer tex={item.label} copyable={false} />
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.length > 0 && (
+        <div className="px-3 py-2 bg-indigo-50/50 border border-indigo-100 rounded-2xl max-h-40 overflow-y-auto">
+          <h4 className="text-[10px] font-bold text-indigo-300 uppercase tracking-[0.2em] mb-1">Preview</h4>
+          {preview.map((line, idx) => (
+            <MathRenderer key={idx} tex={line || ' '} className="text-slate-700 text-sm min-h-[1.25rem]" />
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-1">
+        <button
+          type="button"
+          onClick={() => setShowPalette(!showPalette)}
+          className={`p-2 rounded-xl text-sm font-bold transition-all ${showPalette ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+          title="Math symbols"
+        >
+          <MathRenderer tex="$\Sigma$" copyable={false} />
+        </button>
+        <textarea
+          ref={textareaRef}
+          rows={rows}
+          placeholder={placeholder}
+          spellCheck={false}
+          className="flex-1 resize-none bg-transparent border-none focus:ring-0 focus:outline-none text-slate-700 font-medium px-2 py-2 placeholder:text-slate-300 leading-relaxed"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+    </div>
+  );
+});
+
+MathInput.displayName = 'MathInput';
+
+export default MathInput;
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import katex from 'katex';
+import { InlineNode, parseMathMarkup } from '../services/mathMarkup';
+
+interface MathRendererProps {
+  tex: string;
+  className?: string;
+  // Read paragraphs, lists and **bold**/*italic* in the prose around the math.
+  markdown?: boolean;
+  // Clicking a formula copies its LaTeX; off where the math sits inside a button.
+  copyable?: boolean;
+}
+
+const COPIED_MS = 1500;
+
+const MathSpan: React.FC<{ value: string; display: boolean; copyable: boolean }> = ({ value, display, copyable }) => {
+  const [copied, setCopied] = useState(false);
+
+  // KaTeX escapes everything it outputs and `trust` stays off, so \href and friends can't inject markup.
+  const rendered = useMemo(() => {
+    try {
+      return { html: katex.renderToString(value, { displayMode: display, throwOnError: true, strict: 'ignore', trust: false }) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message.replace(/^KaTeX parse error:\s*/, '') : 'Invalid LaTeX' };
+    }
+  }, [value, display]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(value).then(() => setCopied(true), () => {});
+  };
+
+  const content = 'html' in rendered
+    ? <span dangerouslySetInnerHTML={{ __html: rendered.html }} />
+    : (
+      <code
+        title={`Could not render: ${rendered.error}`}
+        className={`px-1.5 py-0.5 rounded-md bg-amber-50 border border-amber-200 text-amber-800 text-[0.85em] font-mono whitespace-pre-wrap break-words ${display ? 'block my-2' : ''}`}
+      >
+        {value}
+      </code>
+    );
+
+  if (!copyable) return content;
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title={'html' in rendered ? 'Click to copy LaTeX' : `Could not render: ${rendered.error} (click to copy)`}
+      onClick={copy}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          copy();
+        }
+      }}
+      className={`relative cursor-copy rounded-md hover:bg-indigo-500/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-300 transition-colors ${display ? 'block' : 'inline-block'}`}
+    >
+      {content}
+      {copied && (
+        <span className="absolute -top-6 left-1/2 -translate-x-1/2 px-2 py-0.5 bg-slate-900 text-white rounded-md text-[10px] font-bold whitespace-nowrap pointer-events-none">
+          LaTeX copied
+        </span>
+      )}
+    </span>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], copyable: boolean): React.ReactNode[] =>
+  nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'math':
+        return <MathSpan key={idx} value={node.value} display={node.display} copyable={copyable} />;
+      case 'code':
+        return <code key={idx} className="px-1 py-0.5 rounded bg-slate-100 text-[0.9em] font-mono">{node.value}</code>;
+      case 'strong':
+        return <strong key={idx} className="font-bold">{renderInline(node.children, copyable)}</strong>;
+      case 'em':
+        return <em key={idx}>{renderInline(node.children, copyable)}</em>;
+      default:
+        return node.value.split('\n').map((line, lineIdx) => (
+          <React.Fragment key={`${idx}-${lineIdx}`}>
+            {lineIdx > 0 && <br />}
+            {line}
+          </React.Fragment>
+        ));
+    }
+  });
+
+/**
+ * Text with math in any of $...$, $$...$$, \(...\), \[...\] or a display
+ * environment. Everything outside the math is rendered as plain text, and
+ * formulas KaTeX can't parse are shown as their source instead.
+ */
+const MathRenderer: React.FC<MathRendererProps> = ({ tex, className = "", markdown = false, copyable = true }) => {
+  const blocks = useMemo(() => parseMathMarkup(tex, { markdown }), [tex, markdown]);
+
+  if (!markdown) {
+    return <div className={`math-render leading-relaxed ${className}`}>{renderInline(blocks[0].content, copyable)}</div>;
+  }
+
+  return (
+    <div className={`math-render leading-relaxed space-y-2 ${className}`}>
+      {blocks.map((block, idx) => {
+        if (block.type === 'paragraph') return <p key={idx}>{renderInline(block.content, copyable)}</p>;
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={idx} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+            {block.items.map((item, itemIdx) => <li key={itemIdx}>{renderInline(item, copyable)}</li>)}
+          </ListTag>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MathRenderer;
@@ -1,135 +1,292 @@
 
-import React, { useEffect, useRef } from 'react';
-import { SolveResponse } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EXPLANATION_LEVELS, ExplanationLevel, PartialSolveResponse, ReadAloudSection, SolveResponse, VerificationResult, VerificationStatus } from '../types';
+import { checkStepConsistency } from '../services/stepConsistency';
+import { readAloudSections } from '../services/mathSpeech';
+import { EXPORT_FORMATS, ExportFormat } from '../services/solutionExport';
+import { ShareOutcome } from '../services/shareLink';
+import FunctionGraph from './FunctionGraph';
+import MathRenderer from './MathRenderer';
 
-declare const katex: any;
+const VERIFICATION_BADGES: Record<VerificationStatus, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-emerald-500/15 text-emerald-300 border-emerald-400/30' },
+  unverified: { label: 'Could not verify', className: 'bg-white/5 text-slate-400 border-white/10' },
+  mismatch: { label: 'Mismatch', className: 'bg-red-500/15 text-red-300 border-red-400/30' }
+};
+
+interface MathResponseProps {
+  // While streaming, sections that have not arrived yet are simply not rendered.
+  data: SolveResponse | PartialSolveResponse;
+  isPartial?: boolean;
+  // The read-aloud button is left out when there is no handler.
+  onSpeech?: (sections: ReadAloudSection[]) => void;
+  // Id of the section being read aloud, which is highlighted and scrolled into view.
+  speakingSection?: string;
+  onAskAboutStep?: (stepIndex: number) => void;
+  verification?: VerificationResult;
+  onResolve?: () => void;
+  onPractice?: () => void;
+  isPracticeLoading?: boolean;
+  level?: ExplanationLevel;
+  onReexplain?: (level: ExplanationLevel) => void;
+  onCompare?: () => void;
+  onExport?: (format: ExportFormat) => void;
+  onShare?: () => Promise<ShareOutcome>;
+}
+
+const SHARE_LABELS: Record<ShareOutcome | 'failed', string> = {
+  link: 'Link copied',
+  bundle: 'Too large for a link, saved as a file',
+  failed: 'Could not share'
+};
+
+const MathResponse: React.FC<MathResponseProps> = ({ data, isPartial = false, onSpeech, speakingSection, onAskAboutStep, verification, onResolve, onPractice, isPracticeLoading = false, level, onReexplain, onCompare, onExport, onShare }) => {
+  const stepChecks = useMemo(() => isPartial ? [] : checkStepConsistency(data.steps), [data.steps, isPartial]);
+  // Saved sessions from other builds may carry a status this one has no badge for.
+  const badge = verification && Object.prototype.hasOwnProperty.call(VERIFICATION_BADGES, verification.status)
+    ? VERIFICATION_BADGES[verification.status]
+    : undefined;
+
+  const [shareStatus, setShareStatus] = useState<ShareOutcome | 'failed' | null>(null);
+
+  const handleShare = async () => {
+    if (!onShare) return;
+    setShareStatus(await onShare().catch(() => 'failed' as const));
+  };
 
-const MathRenderer: React.FC<{ tex: string; className?: string }> = ({ tex, className = "" }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (containerRef.current && typeof katex !== 'undefined') {
-      try {
-        const parts = tex.split(/(\$\$[\s\S]*?\$\$|\$[\s\S]*?\$)/g);
-        containerRef.current.innerHTML = '';
-        
-        parts.forEach(part => {
-          const span = document.createElement('span');
-          if (part.startsWith('$$') && part.endsWith('$$')) {
-            const math = part.slice(2, -2);
-            katex.render(math, span, { displayMode: true, throwOnError: false });
-          } else if (part.startsWith('$') && part.endsWith('$')) {
-            const math = part.slice(1, -1);
-            katex.render(math, span, { displayMode: false, throwOnError: false });
-          } else {
-            span.textContent = part;
-          }
-          containerRef.current?.appendChild(span);
-        });
-      } catch (e) {
-        if (containerRef.current) containerRef.current.textContent = tex;
-      }
-    }
-  }, [tex]);
-
-  return <div ref={containerRef} className={`math-render leading-relaxed ${className}`} />;
-};
+    if (!speakingSection) return;
+    containerRef.current?.querySelector(`[data-read-aloud="${speakingSection}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [speakingSection]);
 
-interface MathResponseProps {
-  data: SolveResponse;
-  onSpeech: (text: string) => void;
-}
+  const speakingClass = (id: string) => speakingSection === id ? 'ring-2 ring-indigo-400 ring-offset-4 ring-offset-white' : '';
 
-const MathResponse: React.FC<MathResponseProps> = ({ data, onSpeech }) => {
   const handleReadAloud = () => {
-    const textToRead = `
-      Problem: ${data.description}.
-      Main concepts: ${data.concepts.join(', ')}.
-      Steps: ${data.steps.map(s => `${s.title}: ${s.explanation}`).join('. ')}
-      Final Result: ${data.finalAnswer}.
-      Tip: ${data.tutoringTip || ''}
-    `;
-    onSpeech(textToRead);
+    if (!onSpeech || isPartial) return;
+    onSpeech(readAloudSections(data as SolveResponse));
   };
 
   return (
-    <div className="flex flex-col gap-8 text-slate-800 animate-in fade-in slide-in-from-bottom-4 duration-700">
+    <div ref={containerRef} className="flex flex-col gap-8 text-slate-800 animate-in fade-in slide-in-from-bottom-4 duration-700">
       {/* Description Section */}
-      <section className="bg-gradient-to-br from-indigo-50 to-white border border-indigo-100 p-5 rounded-2xl shadow-sm">
-        <div className="flex items-center gap-2 mb-2">
-          <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />
-          <h3 className="text-xs font-bold text-indigo-700 uppercase tracking-widest">Problem Analysis</h3>
-        </div>
-        <p className="text-slate-700 font-medium leading-relaxed">{data.description}</p>
-      </section>
+      {data.description !== undefined && (
+        <section data-read-aloud="description" className={`bg-gradient-to-br from-indigo-50 to-white border border-indigo-100 p-5 rounded-2xl shadow-sm transition-shadow ${speakingClass('description')}`}>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />
+            <h3 className="text-xs font-bold text-indigo-700 uppercase tracking-widest">Problem Analysis</h3>
+          </div>
+          <MathRenderer tex={data.description} markdown className="text-slate-700 font-medium" />
+        </section>
+      )}
 
       {/* Concepts Section */}
-      <section>
-        <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Key Mechanisms</h3>
-        <div className="flex flex-wrap gap-2">
-          {data.concepts.map((concept, idx) => (
-            <span key={idx} className="px-4 py-1.5 bg-indigo-600/5 text-indigo-600 rounded-lg text-xs font-bold border border-indigo-100 hover:bg-indigo-600 hover:text-white transition-all cursor-default">
-              {concept}
-            </span>
-          ))}
-        </div>
-      </section>
+      {data.concepts && (
+        <section data-read-aloud="concepts" className={`rounded-2xl transition-shadow ${speakingClass('concepts')}`}>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-3 ml-1">Key Mechanisms</h3>
+          <div className="flex flex-wrap gap-2">
+            {data.concepts.map((concept, idx) => (
+              <span key={idx} className="px-4 py-1.5 bg-indigo-600/5 text-indigo-600 rounded-lg text-xs font-bold border border-indigo-100 hover:bg-indigo-600 hover:text-white transition-all cursor-default">
+                {concept}
+              </span>
+            ))}
+          </div>
+        </section>
+      )}
 
       {/* Steps Section */}
-      <section className="space-y-4">
-        <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-4 ml-1">Solution Pathway</h3>
-        {data.steps.map((step, idx) => (
-          <div key={idx} className="group flex gap-4">
-            <div className="flex flex-col items-center">
-              <div className="w-8 h-8 rounded-full bg-white border-2 border-slate-100 flex items-center justify-center text-xs font-bold text-slate-400 group-hover:border-indigo-500 group-hover:text-indigo-500 transition-colors shadow-sm">
-                {idx + 1}
-              </div>
-              <div className="flex-1 w-[2px] bg-slate-50 group-last:bg-transparent" />
-            </div>
-            <div className="flex-1 pb-8 group-last:pb-2">
-              <h4 className="font-bold text-slate-800 text-sm mb-1">{step.title}</h4>
-              <p className="text-slate-500 text-xs mb-3 leading-relaxed">{step.explanation}</p>
-              <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 group-hover:shadow-md transition-shadow">
-                <MathRenderer tex={step.math} className="text-slate-800" />
+      {data.steps.length > 0 && (
+        <section className="space-y-4">
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-4 ml-1">Solution Pathway</h3>
+          {data.steps.map((step, idx) => {
+            const check = stepChecks[idx];
+            const isBreak = check?.status === 'break';
+            const isExtraneous = check?.status === 'extraneous';
+            return (
+              <div key={idx} data-read-aloud={`step-${idx}`} className={`group flex gap-4 rounded-2xl transition-shadow ${speakingClass(`step-${idx}`)}`}>
+                <div className="flex flex-col items-center">
+                  <div className={`w-8 h-8 rounded-full bg-white border-2 flex items-center justify-center text-xs font-bold transition-colors shadow-sm ${isBreak ? 'border-red-400 text-red-500' : 'border-slate-100 text-slate-400 group-hover:border-indigo-500 group-hover:text-indigo-500'}`}>
+                    {idx + 1}
+                  </div>
+                  <div className="flex-1 w-[2px] bg-slate-50 group-last:bg-transparent" />
+                </div>
+                <div className="flex-1 pb-8 group-last:pb-2">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-bold text-slate-800 text-sm">{step.title}</h4>
+                    {(isBreak || isExtraneous) && (
+                      <span className="relative group/check">
+                        <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest cursor-help border ${isBreak ? 'bg-red-50 text-red-500 border-red-200' : 'bg-amber-50 text-amber-600 border-amber-200'}`}>
+                          {isBreak ? 'Check this step' : 'Check the roots'}
+                        </span>
+                        <span className="absolute left-0 top-full mt-2 z-20 w-72 p-3 bg-slate-900 text-white text-xs leading-relaxed rounded-xl shadow-xl hidden group-hover/check:block">
+                          {check.detail}
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                  <MathRenderer tex={step.explanation} markdown className="text-slate-500 text-xs mb-3" />
+                  {step.math && (
+                    <div className={`bg-white p-5 rounded-2xl shadow-sm border group-hover:shadow-md transition-shadow ${isBreak ? 'border-red-200' : 'border-slate-100'}`}>
+                      <MathRenderer tex={step.math} className="text-slate-800" />
+                    </div>
+                  )}
+                  {onAskAboutStep && (
+                    <button
+                      onClick={() => onAskAboutStep(idx)}
+                      className="mt-2 ml-1 text-[10px] font-bold uppercase tracking-widest text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all"
+                    >
+                      Ask about this step
+                    </button>
+                  )}
+                </div>
               </div>
-            </div>
-          </div>
-        ))}
-      </section>
+            );
+          })}
+        </section>
+      )}
+
+      {/* Graph Section */}
+      {!isPartial && 'graph' in data && data.graph && (
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-4 ml-1">Graph</h3>
+          <FunctionGraph graph={data.graph} finalAnswer={data.finalAnswer} />
+        </section>
+      )}
 
       {/* Final Answer Section */}
-      <section className="relative overflow-hidden bg-slate-900 text-white p-8 rounded-3xl shadow-xl shadow-indigo-100">
-        <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/10 rounded-full -mr-16 -mt-16 blur-3xl" />
-        <div className="absolute bottom-0 left-0 w-24 h-24 bg-purple-500/10 rounded-full -ml-12 -mb-12 blur-2xl" />
+      {data.finalAnswer !== undefined && (
+        <section data-read-aloud="answer" className={`relative overflow-hidden bg-slate-900 text-white p-8 rounded-3xl shadow-xl shadow-indigo-100 ${speakingClass('answer')}`}>
+          <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/10 rounded-full -mr-16 -mt-16 blur-3xl" />
+          <div className="absolute bottom-0 left-0 w-24 h-24 bg-purple-500/10 rounded-full -ml-12 -mb-12 blur-2xl" />
         
-        <div className="relative z-10 text-center">
-          <h3 className="text-[10px] font-bold text-indigo-300 uppercase tracking-[0.2em] mb-3">Mathematical Result</h3>
-          <div className="text-2xl font-black">
-            <MathRenderer tex={data.finalAnswer} />
+          <div className="relative z-10 text-center">
+            <h3 className="text-[10px] font-bold text-indigo-300 uppercase tracking-[0.2em] mb-3">Mathematical Result</h3>
+            <div className="text-2xl font-black">
+              <MathRenderer tex={data.finalAnswer} />
+            </div>
+            {verification && badge && (
+              <div className="mt-5 flex flex-col items-center gap-3">
+                <span
+                  title={verification.detail}
+                  className={`px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest cursor-help ${badge.className}`}
+                >
+                  {badge.label}
+                  {verification.method && <span className="opacity-60 normal-case tracking-normal font-bold"> · {verification.method}</span>}
+                </span>
+                {verification.status === 'mismatch' && (
+                  <>
+                    <p className="text-xs text-red-200/80 max-w-sm">{verification.detail}</p>
+                    {onResolve && (
+                      <button
+                        onClick={onResolve}
+                        className="px-4 py-2 bg-white text-slate-900 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-all active:scale-95"
+                      >
+                        Re-solve with this check
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
           </div>
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* Tutoring Tip Section */}
       {data.tutoringTip && (
-        <section className="bg-amber-50 border border-amber-200 p-5 rounded-2xl flex gap-4 items-start shadow-sm">
+        <section data-read-aloud="tip" className={`bg-amber-50 border border-amber-200 p-5 rounded-2xl flex gap-4 items-start shadow-sm ${speakingClass('tip')}`}>
           <div className="p-2 bg-amber-100 rounded-xl text-amber-600">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M15 14c.2-1 .7-1.7 1.5-2.5 1-.9 1.5-2.2 1.5-3.5A6 6 0 0 0 6 8c0 1 .2 2.2 1.5 3.5.7.7 1.3 1.5 1.5 2.5"></path><path d="M9 18h6"></path><path d="M10 22h4"></path></svg>
           </div>
           <div>
             <h4 className="text-xs font-bold text-amber-800 mb-1">Tutor's Advice</h4>
-            <p className="text-amber-700 text-sm italic">"{data.tutoringTip}"</p>
+            <MathRenderer tex={`"${data.tutoringTip}"`} markdown className="text-amber-700 text-sm italic" />
           </div>
         </section>
       )}
 
-      <button 
-        onClick={handleReadAloud}
-        className="group flex items-center justify-center gap-3 py-4 px-8 bg-white border-2 border-slate-100 text-slate-600 font-bold rounded-2xl hover:border-indigo-600 hover:text-indigo-600 transition-all shadow-sm active:scale-95"
-      >
-        <svg className="group-hover:animate-pulse" xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5L6 9H2v6h4l5 4V5z"></path><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>
-        Play Explainer Audio
-      </button>
+      {!isPartial && (onReexplain || onCompare) && (
+        <section className="flex flex-wrap items-center gap-2">
+          {onReexplain && (
+            <>
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mr-1">Re-explain at</span>
+              {EXPLANATION_LEVELS.filter(lvl => lvl !== level).map(lvl => (
+                <button
+                  key={lvl}
+                  onClick={() => onReexplain(lvl)}
+                  className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg border border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+                >
+                  {lvl}
+                </button>
+              ))}
+            </>
+          )}
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              className="ml-auto px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+            >
+              Compare with original
+            </button>
+          )}
+        </section>
+      )}
+
+      {!isPartial && (onExport || onShare) && (
+        <section className="flex flex-wrap items-center gap-2">
+          {onExport && (
+            <>
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mr-1">Export as</span>
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg border border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+                >
+                  {label}
+                </button>
+              ))}
+            </>
+          )}
+          {onShare && (
+            <div className="ml-auto flex items-center gap-3">
+              {shareStatus && (
+                <span className={`text-[10px] font-bold uppercase tracking-widest ${shareStatus === 'failed' ? 'text-red-500' : 'text-emerald-600'}`}>
+                  {SHARE_LABELS[shareStatus]}
+                </span>
+              )}
+              <button
+                onClick={handleShare}
+                className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+              >
+                Share
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {!isPartial && onPractice && (
+        <button
+          onClick={onPractice}
+          disabled={isPracticeLoading}
+          className="flex items-center justify-center gap-3 py-4 px-8 bg-indigo-600 text-white font-bold rounded-2xl hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-sm active:scale-95"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"></path><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path></svg>
+          {isPracticeLoading ? 'Preparing Practice...' : 'Practice Similar Problems'}
+        </button>
+      )}
+
+      {!isPartial && onSpeech && (
+        <button 
+          onClick={handleReadAloud}
+          className="group flex items-center justify-center gap-3 py-4 px-8 bg-white border-2 border-slate-100 text-slate-600 font-bold rounded-2xl hover:border-indigo-600 hover:text-indigo-600 transition-all shadow-sm active:scale-95"
+        >
+          <svg className="group-hover:animate-pulse" xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M11 5L6 9H2v6h4l5 4V5z"></path><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>
+          Play Explainer Audio
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { PracticeProblem, PracticeSet, ReadAloudSection } from '../types';
+import { gradeAnswer } from '../services/answerGrading';
+import { transcribeMath } from '../services/solverService';
+import DrawingBoard from './DrawingBoard';
+import MathResponse from './MathResponse';
+import MathRenderer from './MathRenderer';
+
+interface PracticePanelProps {
+  practice: PracticeSet;
+  onChange: (practice: PracticeSet) => void;
+  onSpeech: (problemId: string, sections: ReadAloudSection[]) => void;
+  // The section being read aloud, if it belongs to one of these problems.
+  speaking?: { problemId: string; sectionId: string };
+}
+
+const GRADE_STYLES = {
+  correct: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  incorrect: 'bg-red-50 text-red-600 border-red-200',
+  unknown: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+export const practiceScore = (practice: PracticeSet) => ({
+  correct: practice.problems.filter(p => p.attempts.some(a => a.status === 'correct')).length,
+  total: practice.problems.length
+});
+
+const PracticePanel: React.FC<PracticePanelProps> = ({ practice, onChange, onSpeech, speaking }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [drawingFor, setDrawingFor] = useState<string | null>(null);
+  const [readingId, setReadingId] = useState<string | null>(null);
+
+  const updateProblem = (id: string, update: (problem: PracticeProblem) => PracticeProblem) => {
+    onChange({ ...practice, problems: practice.problems.map(p => p.id === id ? update(p) : p) });
+  };
+
+  const submit = (problem: PracticeProblem, answer: string, image?: string) => {
+    const grade = gradeAnswer(problem.problem, problem.solution.finalAnswer, answer);
+    updateProblem(problem.id, p => ({
+      ...p,
+      attempts: [...p.attempts, { answer, image, status: grade.status, detail: grade.detail, timestamp: Date.now() }]
+    }));
+  };
+
+  const submitDrawing = async (problem: PracticeProblem, image: string) => {
+    setDrawingFor(null);
+    setReadingId(problem.id);
+    try {
+      const latex = await transcribeMath(image);
+      setAnswers(prev => ({ ...prev, [problem.id]: latex }));
+      submit(problem, latex, image);
+    } catch (error) {
+      console.error("Transcription error:", error);
+    } finally {
+      setReadingId(null);
+    }
+  };
+
+  const { correct, total } = practiceScore(practice);
+
+  return (
+    <div className="flex flex-col gap-6 text-slate-800">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-2">Practice Set</h3>
+          <div className="flex flex-wrap gap-2">
+            {practice.concepts.map((concept, idx) => (
+              <span key={idx} className="px-3 py-1 bg-indigo-600/5 text-indigo-600 rounded-lg text-[10px] font-bold border border-indigo-100">{concept}</span>
+            ))}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-black text-indigo-600">{correct}<span className="text-slate-300">/{total}</span></div>
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Correct</div>
+        </div>
+      </div>
+
+      {practice.problems.map((problem, idx) => {
+        const last = problem.attempts[problem.attempts.length - 1];
+        const solved = problem.attempts.some(a => a.status === 'correct');
+        return (
+          <div key={problem.id} className="p-5 rounded-2xl border border-slate-100 bg-slate-50/50 space-y-4">
+            <div className="flex gap-3">
+              <div className={`w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${solved ? 'bg-emerald-500 text-white' : 'bg-white border-2 border-slate-100 text-slate-400'}`}>
+                {idx + 1}
+              </div>
+              <MathRenderer tex={problem.problem} className="text-sm font-medium text-slate-700 pt-1" />
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Your answer (e.g. x = 4)"
+                className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-indigo-300"
+                value={answers[problem.id] ?? ''}
+                onChange={(e) => setAnswers(prev => ({ ...prev, [problem.id]: e.target.value }))}
+                onKeyDown={(e) => {
+                  // Same conditions as the Check button: no empty attempts, nothing while a drawing is read.
+                  if (e.key === 'Enter' && (answers[problem.id] ?? '').trim() && readingId !== problem.id) submit(problem, answers[problem.id] ?? '');
+                }}
+              />
+              <button
+                onClick={() => setDrawingFor(problem.id)}
+                className="px-3 py-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                title="Draw your answer"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="m12 3 7.22 9-5.22 8h-4l-5.22-8L12 3Z"/></svg>
+              </button>
+              <button
+                disabled={!(answers[problem.id] ?? '').trim() || readingId === problem.id}
+                onClick={() => submit(problem, answers[problem.id] ?? '')}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-30 transition-all"
+              >
+                {readingId === problem.id ? 'Reading...' : 'Check'}
+              </button>
+            </div>
+
+            {last && (
+              <div className={`px-3 py-2 rounded-xl border text-xs font-medium ${GRADE_STYLES[last.status]}`}>
+                <span className="font-black uppercase tracking-widest text-[10px] mr-2">{last.status}</span>
+                {last.detail}
+                {problem.attempts.length > 1 && <span className="opacity-60"> · attempt {problem.attempts.length}</span>}
+              </div>
+            )}
+
+            {problem.revealed ? (
+              <div className="pt-2">
+                <MathResponse
+                  data={problem.solution}
+                  onSpeech={(sections) => onSpeech(problem.id, sections)}
+                  speakingSection={speaking?.problemId === problem.id ? speaking.sectionId : undefined}
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => updateProblem(problem.id, p => ({ ...p, revealed: true }))}
+                className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600"
+              >
+                Show worked solution
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {drawingFor && (
+        <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-xl z-[60] flex items-center justify-center p-4">
+          <div className="w-full max-w-3xl">
+            <DrawingBoard
+              submitLabel="Check Drawing"
+              onCancel={() => setDrawingFor(null)}
+              onCapture={(data) => {
+                const problem = practice.problems.find(p => p.id === drawingFor);
+                if (problem) submitDrawing(problem, data);
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticePanel;
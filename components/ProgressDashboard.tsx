@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { listAllSessions } from '../services/sessionStore';
+import { downloadFile } from '../services/solutionExport';
+import {
+  buildProgressReport,
+  ConceptFlag,
+  PROGRESS_WEEKS,
+  progressCsv,
+  progressFileSlug,
+  progressJson,
+  ProgressReport
+} from '../services/progressAnalytics';
+
+interface ProgressDashboardProps {
+  onClose: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="p-4 bg-white rounded-2xl border border-slate-100">
+    <div className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-1">{label}</div>
+    <div className="text-xl font-black text-slate-800">{value}</div>
+  </div>
+);
+
+const FLAG_LABELS: Record<ConceptFlag, { label: string; title: string }> = {
+  deep: { label: 'Deep', title: 'Mostly needed the deep explanation' },
+  practice: { label: 'Practice', title: 'Most practice answers were wrong' }
+};
+
+const shortDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const Sparkline: React.FC<{ counts: number[] }> = ({ counts }) => {
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="flex items-end gap-0.5 h-5 w-16">
+      {counts.map((count, idx) => (
+        <div key={idx} className={`flex-1 rounded-sm ${count ? 'bg-indigo-400' : 'bg-slate-200'}`} style={{ height: `${Math.max(12, (count / max) * 100)}%` }} />
+      ))}
+    </div>
+  );
+};
+
+// Concepts across every saved session, with the ones worth reviewing pointed out.
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onClose }) => {
+  const [report, setReport] = useState<ProgressReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listAllSessions()
+      .then(sessions => setReport(buildProgressReport(sessions)))
+      .catch(err => {
+        console.error("Progress load error:", err);
+        setError('Could not read the saved sessions.');
+      });
+  }, []);
+
+  const maxWeekly = report ? Math.max(1, ...report.weekly) : 1;
+  const flagged = report ? report.concepts.filter(c => c.flags.length > 0).length : 0;
+
+  return (
+    <div className="bg-slate-50 rounded-[2rem] shadow-2xl border border-slate-200 max-h-[90vh] flex flex-col">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+        <span className="text-xs font-black uppercase tracking-widest text-slate-500">Progress by Concept</span>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      {error && <p className="p-6 text-sm text-red-500">{error}</p>}
+      {!error && !report && <p className="p-6 text-sm text-slate-400">Loading sessions…</p>}
+      {report && report.concepts.length === 0 && (
+        <p className="p-6 text-sm text-slate-500">Solve a few problems and the concepts they use will show up here.</p>
+      )}
+
+      {report && report.concepts.length > 0 && (
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-4 gap-3">
+            <Stat label="Sessions" value={report.sessions} />
+            <Stat label="Problems" value={report.problems} />
+            <Stat label="Concepts" value={report.concepts.length} />
+            <Stat label="To review" value={flagged} />
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Problems per week · last {PROGRESS_WEEKS} weeks</h4>
+            <div className="flex items-end gap-2 h-24 p-3 bg-white rounded-2xl border border-slate-100">
+              {report.weekly.map((count, idx) => (
+                <div key={idx} className="flex-1 h-full flex flex-col justify-end items-center gap-1" title={`Week of ${shortDate(report.weekStarts[idx])}: ${count}`}>
+                  <span className="text-[10px] font-bold text-slate-500">{count || ''}</span>
+                  <div className={`w-full rounded-lg ${count ? 'bg-indigo-500' : 'bg-slate-100'}`} style={{ height: `${Math.max(4, (count / maxWeekly) * 100)}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 px-3 text-[10px] text-slate-400">
+              <span>{shortDate(report.weekStarts[0])}</span>
+              <span>This week</span>
+            </div>
+          </div>
+
+          {report.recommendations.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Review next</h4>
+              <ol className="space-y-2">
+                {report.recommendations.map((rec, idx) => (
+                  <li key={rec.concept} className="flex items-center gap-3 px-4 py-3 bg-white rounded-2xl border border-indigo-100">
+                    <span className="w-6 h-6 flex items-center justify-center rounded-lg bg-indigo-600 text-white text-[10px] font-black">{idx + 1}</span>
+                    <span className="text-sm font-bold text-slate-800">{rec.concept}</span>
+                    <span className="ml-auto text-xs text-slate-500">{rec.reason}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Concepts</h4>
+            <div className="bg-white rounded-2xl border border-slate-100 overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100">
+                    <th className="text-left px-4 py-2">Concept</th>
+                    <th className="text-right px-2 py-2">Solved</th>
+                    <th className="px-2 py-2">Weekly</th>
+                    <th className="text-right px-2 py-2" title="Explanations at the deep level">Deep</th>
+                    <th className="text-right px-2 py-2" title="Correct practice problems / wrong attempts">Practice</th>
+                    <th className="text-left px-4 py-2">Flags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.concepts.map(c => (
+                    <tr key={c.concept} className="border-b border-slate-50 last:border-0">
+                      <td className="px-4 py-2 font-bold text-slate-700" title={`First seen ${shortDate(c.firstSeen)} · last seen ${shortDate(c.lastSeen)}`}>{c.concept}</td>
+                      <td className="text-right px-2 py-2 text-slate-600">{c.problems}</td>
+                      <td className="px-2 py-2"><Sparkline counts={c.weekly} /></td>
+                      <td className="text-right px-2 py-2 text-slate-600">{c.levels.deep || '—'}</td>
+                      <td className="text-right px-2 py-2 text-slate-600">
+                        {c.practiceAttempts ? <>{c.practiceSolved} ✓ · <span className={c.practiceFailures ? 'text-red-500' : ''}>{c.practiceFailures} ✗</span></> : '—'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex gap-1">
+                          {c.flags.map(flag => (
+                            <span key={flag} title={FLAG_LABELS[flag].title} className="px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-amber-700 text-[10px] font-bold">
+                              {FLAG_LABELS[flag].label}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => downloadFile(`${progressFileSlug(report)}.csv`, progressCsv(report), 'text/csv')}
+              className="flex-1 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => downloadFile(`${progressFileSlug(report)}.json`, progressJson(report), 'application/json')}
+              className="flex-1 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+            >
+              Export JSON
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 text-center">Computed on this device from your saved sessions. Nothing is uploaded.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { ReadAloudSection, SpeechSettings } from '../types';
+import { SPEECH_RATES, voiceLanguages, voicesForLanguage } from '../services/speechPlayback';
+
+interface ReadAloudBarProps {
+  sections: ReadAloudSection[];
+  index: number;
+  paused: boolean;
+  settings: SpeechSettings;
+  onSettingsChange: (settings: SpeechSettings) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onStop: () => void;
+}
+
+const displayLanguage = (tag: string) => {
+  try {
+    return `${new Intl.DisplayNames([navigator.language], { type: 'language' }).of(tag)} (${tag})`;
+  } catch {
+    return tag;
+  }
+};
+
+const CONTROL_CLASS = 'w-9 h-9 flex items-center justify-center rounded-xl text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 transition-all';
+const SELECT_CLASS = 'bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500/20';
+
+/** Playback controls for reading a solution aloud one section at a time. */
+const ReadAloudBar: React.FC<ReadAloudBarProps> = ({ sections, index, paused, settings, onSettingsChange, onPause, onResume, onPrevious, onNext, onStop }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => window.speechSynthesis.getVoices());
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Browsers load their voice list asynchronously, often after the first call.
+  useEffect(() => {
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  const languages = voiceLanguages(voices);
+  const languageVoices = voicesForLanguage(voices, settings.lang);
+  const section = sections[index];
+
+  return (
+    <div className="max-w-3xl mx-auto w-full mb-2 bg-white/95 backdrop-blur-xl border border-indigo-100 rounded-3xl shadow-xl pointer-events-auto px-4 py-2 animate-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full bg-indigo-500 ${paused ? '' : 'animate-pulse'}`} />
+        <div className="flex-1 min-w-0">
+          <p className="text-[10px] font-black uppercase tracking-widest text-indigo-600">
+            {paused ? 'Paused' : 'Reading'} · {index + 1} of {sections.length}
+          </p>
+          <p className="text-xs font-bold text-slate-700 truncate">{section?.label}</p>
+        </div>
+        <button onClick={onPrevious} disabled={index === 0} className={CONTROL_CLASS} title="Previous section">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polygon points="19 20 9 12 19 4 19 20"/><line x1="5" x2="5" y1="19" y2="5"/></svg>
+        </button>
+        <button onClick={paused ? onResume : onPause} className="w-10 h-10 flex items-center justify-center rounded-2xl bg-indigo-600 text-white hover:bg-indigo-700 transition-all active:scale-90" title={paused ? 'Resume' : 'Pause'}>
+          {paused
+            ? <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><polygon points="6 3 20 12 6 21 6 3"/></svg>
+            : <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16" rx="1"/><rect x="14" y="4" width="4" height="16" rx="1"/></svg>}
+        </button>
+        <button onClick={onNext} disabled={index >= sections.length - 1} className={CONTROL_CLASS} title="Next section">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><polygon points="5 4 15 12 5 20 5 4"/><line x1="19" x2="19" y1="5" y2="19"/></svg>
+        </button>
+        <button onClick={() => setShowSettings(!showSettings)} className={`${CONTROL_CLASS} ${showSettings ? 'bg-indigo-50 text-indigo-600' : ''}`} title="Voice settings">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><line x1="4" x2="4" y1="21" y2="14"/><line x1="4" x2="4" y1="10" y2="3"/><line x1="12" x2="12" y1="21" y2="12"/><line x1="12" x2="12" y1="8" y2="3"/><line x1="20" x2="20" y1="21" y2="16"/><line x1="20" x2="20" y1="12" y2="3"/><line x1="2" x2="6" y1="14" y2="14"/><line x1="10" x2="14" y1="8" y2="8"/><line x1="18" x2="22" y1="16" y2="16"/></svg>
+        </button>
+        <button onClick={onStop} className={CONTROL_CLASS} title="Stop reading">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="flex flex-wrap items-center gap-3 pt-2 mt-2 border-t border-slate-100">
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Language
+            <select
+              value={settings.lang}
+              onChange={(e) => onSettingsChange({ ...settings, lang: e.target.value, voiceURI: undefined })}
+              className={SELECT_CLASS}
+            >
+              {!languages.includes(settings.lang) && <option value={settings.lang}>{displayLanguage(settings.lang)}</option>}
+              {languages.map(lang => <option key={lang} value={lang}>{displayLanguage(lang)}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Voice
+            <select
+              value={settings.voiceURI ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, voiceURI: e.target.value || undefined })}
+              className={`${SELECT_CLASS} max-w-[12rem]`}
+            >
+              <option value="">Default</option>
+              {languageVoices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Speed
+            <select
+              value={settings.rate}
+              onChange={(e) => onSettingsChange({ ...settings, rate: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {SPEECH_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReadAloudBar;
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageRole, SharedSolution } from '../types';
+import { decodeSharedSolution, readShareBundle, SHARE_BUNDLE_EXTENSION } from '../services/shareLink';
+import { ExportFormat, collectExportEntries, exportSolutions } from '../services/solutionExport';
+import MathResponse from './MathResponse';
+import MathRenderer from './MathRenderer';
+
+interface SharedSolutionViewProps {
+  // Encoded payload from the link, or '' when a bundle file is to be opened instead.
+  payload: string;
+}
+
+/**
+ * Read-only page for a shared solution. Everything it shows comes from the
+ * link or file, so it works without an API key and never calls the solver.
+ */
+const SharedSolutionView: React.FC<SharedSolutionViewProps> = ({ payload }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [shared, setShared] = useState<SharedSolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(!!payload);
+
+  useEffect(() => {
+    if (!payload) return;
+    let cancelled = false;
+    setIsLoading(true);
+    decodeSharedSolution(payload)
+      .then(result => { if (!cancelled) setShared(result); })
+      .catch(err => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  const openBundle = async (file: File) => {
+    setError(null);
+    try {
+      setShared(await readShareBundle(file));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const exportShared = (format: ExportFormat) => {
+    if (!shared) return;
+    const entries = collectExportEntries([
+      { id: 'q', role: MessageRole.USER, timestamp: shared.sharedAt, ...shared.question },
+      { id: 'a', role: MessageRole.ASSISTANT, content: '', timestamp: shared.sharedAt, metadata: shared.solution, level: shared.level }
+    ]);
+    exportSolutions(format, 'Shared Solution', entries).catch(err => console.error("Export error:", err));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-inter">
+      <header className="px-6 py-4 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center justify-between sticky top-0 z-30">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 bg-indigo-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-indigo-200">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="m18 16 4-4-4-4"></path><path d="m6 8-4 4 4 4"></path><path d="m14.5 4-5 16"></path></svg>
+          </div>
+          <h1 className="font-black text-lg text-slate-800 tracking-tighter">DB MATHSOLVER<span className="text-indigo-600">.AI</span></h1>
+          <span className="hidden sm:inline px-2.5 py-1 bg-slate-100 text-slate-500 rounded-lg text-[10px] font-black uppercase tracking-widest">Shared · Read-only</span>
+        </div>
+        <a href={window.location.pathname} className="px-3 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all">
+          Open the solver
+        </a>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 md:p-8 space-y-8">
+        {isLoading && (
+          <div className="flex items-center gap-3 py-12 justify-center">
+            <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full animate-bounce" />
+            <span className="text-xs font-black text-indigo-600 uppercase tracking-widest">Opening shared solution...</span>
+          </div>
+        )}
+
+        {!isLoading && !shared && (
+          <div className="p-8 bg-white border border-slate-200 rounded-[2rem] shadow-sm text-center space-y-4">
+            {error && <p className="text-sm text-red-500 font-medium">{error}</p>}
+            <p className="text-sm text-slate-500">Solutions too large for a link are shared as a <span className="font-mono">{SHARE_BUNDLE_EXTENSION}</span> file.</p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="py-2 px-6 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium"
+            >
+              Open Shared File
+            </button>
+            <input type="file" hidden ref={fileInputRef} accept=".json,application/json" onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openBundle(file);
+              e.target.value = '';
+            }} />
+          </div>
+        )}
+
+        {shared && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[90%] p-6 md:p-8 rounded-[2rem] rounded-tr-none bg-indigo-600 text-white shadow-sm space-y-4">
+                {shared.question.image && <img src={shared.question.image} className="max-w-full h-auto rounded-2xl border-4 border-white/20 shadow-lg" alt="Shared Problem" />}
+                {shared.question.transcription && <MathRenderer tex={`$$${shared.question.transcription}$$`} className="text-white text-lg" />}
+                {shared.question.content && <p className="text-base md:text-lg font-medium leading-relaxed">{shared.question.content}</p>}
+              </div>
+            </div>
+            <div className="p-6 md:p-8 bg-white rounded-[2rem] rounded-tl-none border border-slate-200 shadow-sm">
+              <MathResponse
+                data={shared.solution}
+                verification={shared.verification}
+                level={shared.level}
+                onExport={exportShared}
+              />
+              <div className="text-[10px] mt-4 font-black uppercase tracking-widest opacity-40">
+                Shared {new Date(shared.sharedAt).toLocaleDateString()}
+                {shared.level && <span> · {shared.level}</span>}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedSolutionView;
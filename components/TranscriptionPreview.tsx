@@ -0,0 +1,100 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { transcribeMath } from '../services/solverService';
+import MathRenderer from './MathRenderer';
+
+interface TranscriptionPreviewProps {
+  image: string;
+  onConfirm: (latex: string) => void;
+  // Attach the image without a transcription, as before this step existed.
+  onSendImage: () => void;
+  onCancel: () => void;
+}
+
+const TranscriptionPreview: React.FC<TranscriptionPreviewProps> = ({ image, onConfirm, onSendImage, onCancel }) => {
+  const [latex, setLatex] = useState('');
+  const [isReading, setIsReading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const read = useCallback(async () => {
+    setIsReading(true);
+    setError(null);
+    try {
+      setLatex(await transcribeMath(image));
+    } catch (err) {
+      console.error("Transcription error:", err);
+      setError("I couldn't read this image. Type the problem below, or send the image as it is.");
+    } finally {
+      setIsReading(false);
+    }
+  }, [image]);
+
+  useEffect(() => {
+    read();
+  }, [read]);
+
+  return (
+    <div className="flex flex-col gap-4 p-5 bg-white rounded-[2rem] shadow-2xl border border-slate-200">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Check what I read</h3>
+        <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-500">Cancel</button>
+      </div>
+
+      <img src={image} className="max-h-48 w-full object-contain rounded-2xl border border-slate-100 bg-slate-50" alt="Problem to transcribe" />
+
+      {isReading ? (
+        <div className="flex items-center gap-3 py-6 justify-center">
+          <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full animate-bounce" />
+          <span className="text-xs font-black text-indigo-600 uppercase tracking-widest">Reading handwriting...</span>
+        </div>
+      ) : (
+        <>
+          {error && <p className="text-xs text-red-500 font-medium px-1">{error}</p>}
+          <div>
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">LaTeX</h4>
+            <textarea
+              value={latex}
+              onChange={(e) => setLatex(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              className="w-full font-mono text-sm bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300"
+            />
+          </div>
+          <div>
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-2 ml-1">Preview</h4>
+            <div className="min-h-[3.5rem] p-4 bg-white border border-slate-100 rounded-2xl shadow-sm">
+              {latex.trim()
+                ? <MathRenderer tex={`$$${latex}$$`} className="text-slate-800" />
+                : <p className="text-xs italic text-slate-300">Nothing to preview yet</p>}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={read}
+          disabled={isReading}
+          className="py-2 px-4 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-30 transition-colors text-sm font-medium"
+        >
+          Read Again
+        </button>
+        <button
+          onClick={onSendImage}
+          disabled={isReading}
+          className="py-2 px-4 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-30 transition-colors text-sm font-medium"
+        >
+          Use Image Only
+        </button>
+        <button
+          onClick={() => onConfirm(latex.trim())}
+          disabled={isReading || !latex.trim()}
+          className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-30 transition-colors text-sm font-medium"
+        >
+          Looks Right, Solve
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionPreview;
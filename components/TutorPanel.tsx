@@ -0,0 +1,97 @@
+import React from 'react';
+import { SolveResponse, TutorState } from '../types';
+import MathRenderer from './MathRenderer';
+
+interface TutorPanelProps {
+  data: SolveResponse;
+  tutor: TutorState;
+  onReveal: () => void;
+  onFinish: () => void;
+}
+
+const ATTEMPT_STYLES = {
+  correct: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  incorrect: 'bg-red-50 text-red-600 border-red-200',
+  unknown: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const TutorPanel: React.FC<TutorPanelProps> = ({ data, tutor, onReveal, onFinish }) => {
+  const step = data.steps[tutor.currentStep];
+  const stepAttempts = tutor.attempts.filter(a => a.stepIndex === tutor.currentStep);
+  const lastAttempt = stepAttempts[stepAttempts.length - 1];
+
+  return (
+    <div className="flex flex-col gap-6 text-slate-800">
+      <section className="bg-gradient-to-br from-indigo-50 to-white border border-indigo-100 p-5 rounded-2xl shadow-sm">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-bold text-indigo-700 uppercase tracking-widest">Let's Work It Out</h3>
+          <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">
+            Step {tutor.currentStep + 1} of {data.steps.length}
+          </span>
+        </div>
+        <MathRenderer tex={data.description} markdown className="text-slate-700 font-medium" />
+        <div className="mt-4 h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(tutor.currentStep / data.steps.length) * 100}%` }} />
+        </div>
+      </section>
+
+      {tutor.currentStep > 0 && (
+        <section className="space-y-3">
+          {data.steps.slice(0, tutor.currentStep).map((done, idx) => {
+            const revealed = tutor.revealedSteps.includes(idx);
+            return (
+              <div key={idx} className="flex gap-3">
+                <div className={`w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${revealed ? 'bg-slate-200 text-slate-500' : 'bg-emerald-500 text-white'}`}>
+                  {idx + 1}
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-bold text-slate-800 text-sm">{done.title}</h4>
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{revealed ? 'Shown' : 'Solved by you'}</span>
+                  </div>
+                  <div className="bg-white p-4 rounded-2xl border border-slate-100">
+                    <MathRenderer tex={done.math} className="text-slate-800 text-sm" />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </section>
+      )}
+
+      {step && (
+        <section className="bg-amber-50 border border-amber-200 p-5 rounded-2xl space-y-4 shadow-sm">
+          <div>
+            <h4 className="text-xs font-bold text-amber-800 mb-1">Hint for step {tutor.currentStep + 1}</h4>
+            <MathRenderer tex={step.hint || step.title} markdown className="text-amber-700 text-sm italic" />
+          </div>
+          <p className="text-xs text-amber-700/80">Write the result of this step in the box below and send it.</p>
+
+          {lastAttempt && (
+            <div className={`px-3 py-2 rounded-xl border text-xs font-medium ${ATTEMPT_STYLES[lastAttempt.status]}`}>
+              <span className="font-black uppercase tracking-widest text-[10px] mr-2">{lastAttempt.answer}</span>
+              {lastAttempt.detail}
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              onClick={onReveal}
+              className="text-[10px] font-bold uppercase tracking-widest text-amber-700 hover:text-indigo-600"
+            >
+              Show this step
+            </button>
+            <button
+              onClick={onFinish}
+              className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600"
+            >
+              Show full solution
+            </button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TutorPanel;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { WorksheetProblem } from '../types';
+import { enumerateWorksheetProblems } from '../services/solverService';
+import MathRenderer from './MathRenderer';
+
+interface WorksheetPanelProps {
+  image: string;
+  onSolve: (problems: WorksheetProblem[]) => void;
+  onCancel: () => void;
+}
+
+const WorksheetPanel: React.FC<WorksheetPanelProps> = ({ image, onSolve, onCancel }) => {
+  const [problems, setProblems] = useState<WorksheetProblem[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    enumerateWorksheetProblems(image)
+      .then(found => {
+        if (cancelled) return;
+        setProblems(found);
+        setSelected(new Set(found.map(p => p.id)));
+      })
+      .catch(err => {
+        console.error("Worksheet enumeration error:", err);
+        if (!cancelled) setError("I couldn't find separate problems on this page. Add them below by hand.");
+      })
+      .finally(() => { if (!cancelled) setIsReading(false); });
+    return () => { cancelled = true; };
+  }, [image]);
+
+  const updateProblem = (id: string, patch: Partial<WorksheetProblem>) =>
+    setProblems(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+
+  const toggle = (id: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const removeProblem = (id: string) => {
+    setProblems(prev => prev.filter(p => p.id !== id));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  const addProblem = () => {
+    const problem: WorksheetProblem = { id: Date.now().toString(), label: String(problems.length + 1), text: '' };
+    setProblems(prev => [...prev, problem]);
+    setSelected(prev => new Set(prev).add(problem.id));
+  };
+
+  const chosen = problems.filter(p => selected.has(p.id) && p.text.trim());
+
+  return (
+    <div className="flex flex-col gap-4 p-5 bg-white rounded-[2rem] shadow-2xl border border-slate-200 max-h-[90vh]">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-semibold text-slate-700">Worksheet problems</h3>
+        <button onClick={onCancel} className="text-xs text-slate-400 hover:text-red-500">Cancel</button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 min-h-0 overflow-hidden">
+        <div className="relative self-start">
+          <img src={image} className="w-full rounded-xl border border-slate-100" alt="Worksheet" />
+          {problems.filter(p => p.region).map(p => (
+            <div
+              key={p.id}
+              className={`absolute border-2 rounded-md pointer-events-none transition-colors ${hoveredId === p.id ? 'border-indigo-500 bg-indigo-500/10' : selected.has(p.id) ? 'border-indigo-300/70' : 'border-slate-300/50 border-dashed'}`}
+              style={{ left: `${p.region!.x * 100}%`, top: `${p.region!.y * 100}%`, width: `${p.region!.width * 100}%`, height: `${p.region!.height * 100}%` }}
+            >
+              <span className="absolute -top-2.5 -left-2.5 px-1.5 bg-indigo-600 text-white text-[10px] font-black rounded">{p.label}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto space-y-3 pr-1">
+          {isReading && (
+            <div className="flex items-center gap-3 py-6 justify-center">
+              <div className="w-2.5 h-2.5 bg-indigo-500 rounded-full animate-bounce" />
+              <span className="text-xs font-black text-indigo-600 uppercase tracking-widest">Finding problems...</span>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-500 font-medium px-1">{error}</p>}
+
+          {problems.map(p => (
+            <div
+              key={p.id}
+              onMouseEnter={() => setHoveredId(p.id)}
+              onMouseLeave={() => setHoveredId(null)}
+              className={`p-3 rounded-2xl border transition-all space-y-2 ${selected.has(p.id) ? 'border-indigo-100 bg-indigo-50/40' : 'border-slate-100 opacity-60'}`}
+            >
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={selected.has(p.id)} onChange={() => toggle(p.id)} className="accent-indigo-600" />
+                <input
+                  value={p.label}
+                  onChange={(e) => updateProblem(p.id, { label: e.target.value })}
+                  className="w-12 text-xs font-black text-indigo-600 bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:border-indigo-300"
+                  title="Label"
+                />
+                <input
+                  value={p.text}
+                  onChange={(e) => updateProblem(p.id, { text: e.target.value })}
+                  placeholder="Problem as LaTeX"
+                  spellCheck={false}
+                  className="flex-1 font-mono text-xs bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:border-indigo-300"
+                />
+                <button onClick={() => removeProblem(p.id)} className="p-1 text-slate-300 hover:text-red-500" title="Remove">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                </button>
+              </div>
+              {p.text.trim() && <MathRenderer tex={`$${p.text.trim()}$`} className="text-sm text-slate-700 pl-6" />}
+            </div>
+          ))}
+
+          {!isReading && (
+            <button onClick={addProblem} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 px-1">
+              + Add a problem
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onSolve(chosen)}
+        disabled={isReading || chosen.length === 0}
+        className="py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-30 transition-colors text-sm font-medium"
+      >
+        Solve {chosen.length} Problem{chosen.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default WorksheetPanel;
@@ -1,16 +1,41 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/inter/300.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/600.css';
+import '@fontsource/inter/700.css';
+import 'katex/dist/katex.min.css';
+import './index.css';
 import App from './App';
+import SharedSolutionView from './components/SharedSolutionView';
+import { sharePayloadFromHash } from './services/shareLink';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Shared links open a read-only view instead of the solver, even when pasted into an open tab.
+const Root: React.FC = () => {
+  const [sharePayload, setSharePayload] = useState(() => sharePayloadFromHash(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setSharePayload(sharePayloadFromHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  return sharePayload !== null ? <SharedSolutionView key={sharePayload} payload={sharePayload} /> : <App />;
+};
+
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
@@ -0,0 +1,81 @@
+// Service worker: keeps the app shell and its bundled assets (scripts, styles,
+// KaTeX fonts) cached so the app opens without a connection. Sessions live in
+// IndexedDB and need no caching here; solver API calls always go to the network.
+
+// Replaced by a hash of the build, so old caches are deleted when a new worker activates.
+const CACHE_VERSION = self.__BUILD_VERSION || 'dev';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+const SHELL_URLS = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+// The build replaces this with its hashed scripts, styles and fonts (see vite.config.ts).
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST || [];
+
+// The worker registers after the page has loaded its bundles, so those are
+// fetched again here rather than relying on the runtime cache.
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)),
+      caches.open(ASSET_CACHE).then((cache) => cache.addAll(PRECACHE_URLS))
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== ASSET_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages: network first so a deploy shows up on the next load, cached shell when offline.
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    // An error page must not replace the cached shell.
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('./index.html', response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match('./index.html', { cacheName: SHELL_CACHE });
+    return cached || Response.error();
+  }
+};
+
+// Built assets have content hashes in their names, so a cached copy is never stale.
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  event.respondWith(handleAsset(request));
+});
+
+// Opening a "results ready" notification brings the app back to the front.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      return client ? client.focus() : self.clients.openWindow('./');
+    })
+  );
+});
@@ -0,0 +1,180 @@
+import { GradeStatus, SolveStep } from "../types";
+import { AnswerValue, answerExpression, parseAnswerValues, verifySolution } from "./answerVerifier";
+import {
+  MathNode,
+  collectVariables,
+  evaluate,
+  expressionsEquivalent,
+  latexToPlain,
+  nearlyEqual,
+  samplePoints,
+  tryParseMath
+} from "./mathExpression";
+import { finalWorkingLine } from "./stepConsistency";
+
+export interface GradeResult {
+  status: GradeStatus;
+  detail: string;
+}
+
+const sameValueSets = (expected: number[], actual: number[], tolerance: number) => {
+  if (expected.length !== actual.length) return false;
+  const remaining = [...actual];
+  return expected.every(value => {
+    const idx = remaining.findIndex(candidate => nearlyEqual(candidate, value, tolerance));
+    if (idx === -1) return false;
+    remaining.splice(idx, 1);
+    return true;
+  });
+};
+
+// Values grouped by variable, or null when some value has no name.
+const valuesByName = (values: AnswerValue[]) => {
+  if (values.some(v => !v.name)) return null;
+  const groups = new Map<string, number[]>();
+  for (const { name, value } of values) groups.set(name!, [...(groups.get(name!) || []), value]);
+  return groups;
+};
+
+const gradeNamedValues = (expected: Map<string, number[]>, actual: Map<string, number[]>, tolerance: number): GradeResult => {
+  const names = [...expected.keys()];
+  if (names.length !== actual.size || names.some(name => !actual.has(name))) {
+    return { status: 'incorrect', detail: `Expected values for ${names.join(', ')}.` };
+  }
+  const wrong = names.filter(name => !sameValueSets(expected.get(name)!, actual.get(name)!, tolerance));
+  return wrong.length === 0
+    ? { status: 'correct', detail: "Your values match the expected answer." }
+    : { status: 'incorrect', detail: `Your value${wrong.length === 1 ? '' : 's'} for ${wrong.join(', ')} ${wrong.length === 1 ? 'is' : 'are'} not right.` };
+};
+
+/**
+ * Grades a student's answer by mathematical equivalence rather than text:
+ * value lists are compared as sets ("x = 3 or x = 2" matches "x = 2, 3"),
+ * per variable when both answers name several ("x = 2, y = 3" does not match
+ * "x = 3, y = 2"), and expressions by numeric sampling. When neither comparison is possible the
+ * answer is checked against the problem itself.
+ */
+export const gradeAnswer = (problem: string, expected: string, answer: string): GradeResult => {
+  if (!answer.trim()) return { status: 'unknown', detail: "No answer given yet." };
+
+  const expectedValues = parseAnswerValues(expected);
+  const actualValues = parseAnswerValues(answer);
+  if (expectedValues && actualValues) {
+    const tolerance = actualValues.some(v => v.approximate) ? 1e-2 : 1e-6;
+    const expectedNamed = valuesByName(expectedValues);
+    const actualNamed = valuesByName(actualValues);
+    if (expectedNamed && actualNamed && (expectedNamed.size > 1 || actualNamed.size > 1)) {
+      return gradeNamedValues(expectedNamed, actualNamed, tolerance);
+    }
+    const match = sameValueSets(expectedValues.map(v => v.value), actualValues.map(v => v.value), tolerance);
+    return match
+      ? { status: 'correct', detail: "Your values match the expected answer." }
+      : { status: 'incorrect', detail: expectedValues.length !== actualValues.length
+          ? `Expected ${expectedValues.length} value${expectedValues.length === 1 ? '' : 's'}, got ${actualValues.length}.`
+          : "At least one of your values is not a solution." };
+  }
+
+  const expectedExpr = answerExpression(expected);
+  const actualExpr = answerExpression(answer);
+  if (expectedExpr && actualExpr && collectVariables(expectedExpr).size > 0) {
+    const equivalent = expressionsEquivalent(expectedExpr, actualExpr, { tolerance: 1e-6 });
+    if (equivalent !== null) {
+      return equivalent
+        ? { status: 'correct', detail: "Your expression is equivalent to the expected answer." }
+        : { status: 'incorrect', detail: "Your expression is not equivalent to the expected answer." };
+    }
+  }
+
+  const check = verifySolution(problem, { description: problem, concepts: [], steps: [], finalAnswer: answer });
+  if (check.status === 'verified') return { status: 'correct', detail: check.detail };
+  if (check.status === 'mismatch') return { status: 'incorrect', detail: check.detail };
+  return { status: 'unknown', detail: "Your answer could not be checked automatically. Compare it with the worked solution." };
+};
+
+/**
+ * Two equations are equivalent when `lhs - rhs` of one is a constant, non-zero
+ * multiple of the other's, e.g. "2x = 10" and "x - 5 = 0".
+ */
+const equationsEquivalent = ([l1, r1]: [MathNode, MathNode], [l2, r2]: [MathNode, MathNode]): boolean | null => {
+  const variables = [...collectVariables(l1, collectVariables(r1, collectVariables(l2, collectVariables(r2))))];
+  let ratio: number | null = null;
+  let checked = 0;
+  for (const point of samplePoints(variables, 24)) {
+    let d1: number;
+    let d2: number;
+    try {
+      d1 = evaluate(l1, point) - evaluate(r1, point);
+      d2 = evaluate(l2, point) - evaluate(r2, point);
+    } catch {
+      return null;
+    }
+    if (!Number.isFinite(d1) || !Number.isFinite(d2)) continue;
+    if (nearlyEqual(d2, 0)) {
+      if (!nearlyEqual(d1, 0)) return false;
+      continue;
+    }
+    const current = d1 / d2;
+    if (ratio === null) ratio = current;
+    else if (!nearlyEqual(ratio, current)) return false;
+    if (++checked >= 12) break;
+  }
+  if (ratio !== null && nearlyEqual(ratio, 0)) return false;
+  return checked >= 3 ? true : null;
+};
+
+// Splits "x - 2 = 0 or x - 3 = 0" (or a single "\pm") into alternatives, each a chain of sides.
+const parseAlternatives = (text: string): MathNode[][] | null => {
+  const alternatives = latexToPlain(text)
+    .split(/\bor\b|,/)
+    .map(alt => alt.trim())
+    .filter(Boolean)
+    .flatMap(alt => alt.includes('pm') ? [alt.replace('pm', '+'), alt.replace('pm', '-')] : [alt])
+    .map(alt => alt.split('=').map(side => tryParseMath(side)));
+  if (alternatives.length === 0 || alternatives.some(sides => sides.some(side => !side))) return null;
+  return alternatives as MathNode[][];
+};
+
+const lastPair = (sides: MathNode[]): [MathNode, MathNode] => [sides[sides.length - 2], sides[sides.length - 1]];
+
+/**
+ * Grades a tutoring attempt against the line a step is expected to arrive at.
+ * Equations match any equivalent rearrangement ("x - 5 = 0" for "x = 5"),
+ * alternatives match in any order, and a bare expression is compared with the
+ * right-hand side of the expected line.
+ */
+export const gradeStepAttempt = (step: SolveStep, answer: string): GradeResult => {
+  if (!answer.trim()) return { status: 'unknown', detail: "No answer given yet." };
+  const expected = parseAlternatives(finalWorkingLine(step.math));
+  const actual = parseAlternatives(answer);
+  if (!expected) {
+    return { status: 'unknown', detail: "This step could not be checked automatically. Compare your work with the worked step." };
+  }
+  if (!actual) return { status: 'unknown', detail: "I couldn't read that as math. Try writing it like 2x = 10." };
+
+  const isEquation = (sides: MathNode[]) => sides.length >= 2;
+  if (expected.every(isEquation) && actual.every(isEquation)) {
+    if (expected.length !== actual.length) {
+      return { status: 'incorrect', detail: `This step has ${expected.length} case${expected.length === 1 ? '' : 's'}; you gave ${actual.length}.` };
+    }
+    const remaining = actual.map(lastPair);
+    for (const equation of expected.map(lastPair)) {
+      const idx = remaining.findIndex(candidate => equationsEquivalent(equation, candidate) === true);
+      if (idx === -1) break;
+      remaining.splice(idx, 1);
+    }
+    if (remaining.length === 0) return { status: 'correct', detail: "Your equation is equivalent to this step's result." };
+  }
+
+  if (expected.length > 1 || actual.length > 1) {
+    return { status: 'incorrect', detail: "Not quite. Check each case against the hint." };
+  }
+  const target = expected[0][expected[0].length - 1];
+  const attempt = actual[0][actual[0].length - 1];
+  const equivalent = expressionsEquivalent(target, attempt, { tolerance: 1e-6 });
+  if (equivalent === null) {
+    return { status: 'unknown', detail: "Your step could not be checked automatically. Compare it with the worked step." };
+  }
+  return equivalent
+    ? { status: 'correct', detail: "That matches this step's result." }
+    : { status: 'incorrect', detail: "That doesn't follow yet. Look at the hint again." };
+};
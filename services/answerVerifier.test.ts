@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { verifySolution } from './answerVerifier';
+
+const check = (problem: string, finalAnswer: string) =>
+  verifySolution(problem, { description: '', concepts: [], steps: [], finalAnswer });
+
+describe('verifySolution', () => {
+  it('verifies a correct linear solution and rejects a wrong one', () => {
+    expect(check('2x+5=15', 'x = 5').status).toBe('verified');
+    expect(check('2x+5=15', 'x = 3')).toMatchObject({ status: 'mismatch', method: 'substitution' });
+  });
+
+  it('reads "Solve for x:" problems', () => {
+    expect(check('Solve for x: 3(x-2)=9', 'x = 5').status).toBe('verified');
+    expect(check('Solve for x: 3(x-2)=9', 'x = 4').status).toBe('mismatch');
+  });
+
+  it('flags a missing root', () => {
+    expect(check('Solve x^2 - 5x + 6 = 0', 'x = 2, 3').status).toBe('verified');
+    expect(check('Solve x^2 - 5x + 6 = 0', 'x = 2')).toMatchObject({ status: 'mismatch', method: 'root scan' });
+  });
+
+  it('only expects the roots a stated condition allows', () => {
+    expect(check('Solve $x^2 = 4$ where $x > 0$', 'x = 2').status).toBe('verified');
+    expect(check('Solve x^2 = 4 for x > 0', 'x = 2').status).toBe('verified');
+    expect(check('Solve $x^2 - 1 = 0$ on $[0, 5]$', 'x = 1').status).toBe('verified');
+  });
+
+  it('rejects values outside a stated condition', () => {
+    expect(check('Solve $x^2 = 4$ where $x > 0$', 'x = -2').status).toBe('mismatch');
+    expect(check('Solve $\\sin x = 0$ for $0 \\le x \\le \\pi$', 'x = 0, \\pi').status).toBe('verified');
+    expect(check('Solve $\\sin x = 0$ for $0 \\le x \\le \\pi$', 'x = 0, \\pi, 2\\pi').status).toBe('mismatch');
+    expect(check('Solve $\\sin x = 0$, $x \\in [0, \\pi)$', 'x = 0, \\pi').status).toBe('mismatch');
+  });
+
+  it('leaves restrictions in words unverified', () => {
+    expect(check('Find the positive solution of $x^2 = 9$', 'x = 3').status).toBe('unverified');
+  });
+
+  it('evaluates definite integrals with single-token and braced bounds', () => {
+    expect(check('$\\int_0^{\\pi} \\sin x\\,dx$', '2').status).toBe('verified');
+    expect(check('$\\int_{0}^{1} x^2 dx$', '1/3').status).toBe('verified');
+    expect(check('$\\int_{0}^{1} x^2 dx$', '1/2').status).toBe('mismatch');
+  });
+
+  it('checks derivatives numerically', () => {
+    expect(check('Differentiate $x^3 + 2x$', '3x^2 + 2').status).toBe('verified');
+    expect(check('Differentiate $x^3 + 2x$', '3x^2').status).toBe('mismatch');
+  });
+});
@@ -0,0 +1,398 @@
+import { SolveResponse, VerificationResult } from "../types";
+import {
+  MathNode,
+  collectVariables,
+  containsCall,
+  derivativeAt,
+  evaluate,
+  expressionsEquivalent,
+  findRealRoots,
+  integrate,
+  latexToPlain,
+  nearlyEqual,
+  samplePoints,
+  tryParseMath
+} from "./mathExpression";
+
+export const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+
+const unverified = (detail: string): VerificationResult => ({ status: 'unverified', detail });
+
+/**
+ * Pulls the math out of a problem statement: `$...$` segments when present,
+ * otherwise the text itself.
+ */
+export const extractMathSegments = (text: string): string[] => {
+  const segments = [...text.matchAll(/\$\$([\s\S]+?)\$\$|\$([^$]+)\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/g)]
+    .map(m => m[1] ?? m[2] ?? m[3] ?? m[4]);
+  return segments.length > 0 ? segments : [text];
+};
+
+// Drops leading instructions ("Solve", "Find x if", "Solve for x:") from plain-text problems.
+const stripInstructions = (text: string) =>
+  text
+    .replace(/^.*?\b(what is|solve|simplify|expand|factor|factorise|factorize|evaluate|compute|calculate|find|differentiate|integrate)\b(\s+(for|the value of|the derivative of|the integral of|derivative of|integral of)\b)?:?/i, '')
+    .replace(/^\s*[a-z]\s*:/i, '')
+    .replace(/\bfor\s+[a-z]\s*$/i, '')
+    .trim();
+
+const COMPARISON = /<|>|≤|≥|\\[lg]eq?\b|\\[lg]t\b|\\in\b/;
+// "on [0, 2\pi)", "x \in (0, 1]"; bounds are plain expressions without brackets.
+const INTERVAL = /(?:\\in\b|∈|\bon\b|\bin\b|\bover\b|\binterval\b)\s*\$?\s*(?:\\left)?([[(])([^,[\]()]+),([^[\]()]+?)(?:\\right)?([\])])/;
+// Restrictions in words, which are not read; a root scan can't tell whether the answer is complete.
+const WORDED_RESTRICTION = /\b(positive|negative|non-?negative|integers?|whole numbers?|natural numbers?|domain|restrict\w*|acute|obtuse)\b/i;
+// A trailing "where x > 0" or "for 0 \le x < 2\pi" clause.
+const CONDITION_CLAUSE = /\s*(?:[,;]\s*)?\b(?:where|for|with|if|given|such that|when|on|in|over)\b(?=.*(?:<|>|≤|≥|\\[lg]eq?\b|\\[lg]t\b|\\in\b|[[(][^,[\]()]*,[^[\]()]*[\])])).*$/i;
+
+interface Condition {
+  // Variables it names; an interval such as "on [0, \pi]" names none and applies to the unknown.
+  variables: string[];
+  holds: (variable: string, x: number) => boolean;
+}
+
+const compare = (left: number, op: string, right: number) => {
+  switch (op) {
+    case '<': return left < right - 1e-9;
+    case '>': return left > right + 1e-9;
+    case '<=': return left <= right + 1e-9;
+    default: return left >= right - 1e-9;
+  }
+};
+
+/**
+ * Inequalities and intervals that restrict the solutions, e.g. "where $x > 0$"
+ * or "for $0 \le x \le \pi$". Returns null when the problem states a
+ * restriction that can't be read.
+ */
+const parseConditions = (problem: string): Condition[] | null => {
+  if (WORDED_RESTRICTION.test(problem)) return null;
+  const conditions: Condition[] = [];
+  let text = problem;
+
+  const interval = text.match(INTERVAL);
+  if (interval) {
+    const [, open, lowerTex, upperTex, close] = interval;
+    const lower = tryParseMath(lowerTex);
+    const upper = tryParseMath(upperTex);
+    if (!lower || !upper) return null;
+    const a = evaluate(lower);
+    const b = evaluate(upper);
+    conditions.push({
+      variables: [],
+      holds: (_variable, x) => compare(x, open === '[' ? '>=' : '>', a) && compare(x, close === ']' ? '<=' : '<', b)
+    });
+    text = text.replace(interval[0], ' ');
+  }
+
+  const plain = latexToPlain(text)
+    .replace(/\b(leq|le)\b|≤/g, '<=')
+    .replace(/\b(geq|ge)\b|≥/g, '>=')
+    .replace(/\blt\b/g, '<')
+    .replace(/\bgt\b/g, '>');
+  const pieces = plain
+    .split(/[,;:]|\b(?:where|for|with|if|given|such that|when|and)\b/i)
+    .filter(piece => /[<>]/.test(piece));
+  for (const piece of pieces) {
+    const parts = piece.split(/(<=|>=|<|>)/);
+    const sides = parts.filter((_, idx) => idx % 2 === 0).map(side => tryParseMath(side));
+    if (sides.some(side => !side)) return null;
+    const nodes = sides as MathNode[];
+    const ops = parts.filter((_, idx) => idx % 2 === 1);
+    const variables = new Set<string>();
+    nodes.forEach(node => collectVariables(node, variables));
+    conditions.push({
+      variables: [...variables],
+      holds: (variable, x) => ops.every((op, idx) =>
+        compare(evaluate(nodes[idx], { [variable]: x }), op, evaluate(nodes[idx + 1], { [variable]: x })))
+    });
+  }
+  return conditions;
+};
+
+/**
+ * Splits an answer such as `x = 2 \text{ or } x = -3` or `x = 1 \pm \sqrt{2}`
+ * into named values. Values without a name (e.g. `\{2, 3\}`) get `name: null`.
+ */
+export interface AnswerValue {
+  name: string | null;
+  value: number;
+  // Decimal answers are usually rounded, so they are compared loosely.
+  approximate: boolean;
+}
+
+export const parseAnswerValues = (answer: string): AnswerValue[] | null => {
+  const plain = latexToPlain(answer.replace(/\\\{|\\\}/g, ''))
+    .replace(/\b(or|and)\b/gi, ',')
+    .replace(/;/g, ',');
+  const values: AnswerValue[] = [];
+
+  for (const piece of plain.split(',').map(p => p.trim()).filter(Boolean)) {
+    const sides = piece.split('=').map(p => p.trim());
+    const name = sides.length > 1 && /^[a-zA-Z](_\w+)?$/.test(sides[0]) ? sides[0] : null;
+    const expression = sides[sides.length - 1];
+    const variants = expression.includes('pm')
+      ? [expression.replace('pm', '+'), expression.replace('pm', '-')]
+      : [expression];
+    for (const variant of variants) {
+      const node = tryParseMath(variant);
+      if (!node || collectVariables(node).size > 0) return null;
+      const value = evaluate(node);
+      if (!Number.isFinite(value)) return null;
+      values.push({ name, value, approximate: /\d\.\d/.test(variant) });
+    }
+  }
+  return values.length > 0 ? values : null;
+};
+
+// The right-most side of an answer like `f'(x) = 3x^2 + 2`, preferring the exact
+// form over a rounded one in `e - 1 \approx 1.718`.
+export const answerExpression = (answer: string): MathNode | null => {
+  const rightSide = latexToPlain(answer).split('=').pop() || '';
+  for (const candidate of rightSide.split('approx')) {
+    const node = tryParseMath(candidate);
+    if (node) return node;
+  }
+  return null;
+};
+
+const verifyEquations = (equations: [MathNode, MathNode][], answer: string, conditions: Condition[] | null = []): VerificationResult => {
+  const variables = new Set<string>();
+  equations.forEach(([l, r]) => { collectVariables(l, variables); collectVariables(r, variables); });
+  const names = [...variables];
+  const saysNoSolution = /no\s*(real\s*)?solution|\\emptyset|varnothing/i.test(answer);
+
+  if (names.length === 1 && equations.length === 1) {
+    const [lhs, rhs] = equations[0];
+    const variable = names[0];
+    const f = (x: number) => evaluate(lhs, { [variable]: x }) - evaluate(rhs, { [variable]: x });
+    const canScan = !containsCall(lhs) && !containsCall(rhs);
+    // Conditions about other variables can't be applied to this one's roots.
+    const readable = conditions && conditions.every(c => c.variables.every(v => v === variable)) ? conditions : null;
+    const allowed = (x: number) => !readable || readable.every(c => c.holds(variable, x));
+
+    if (saysNoSolution) {
+      if (!canScan || !readable) return unverified("Could not check a 'no solution' claim for this equation type.");
+      const roots = findRealRoots(f).filter(allowed);
+      return roots.length === 0
+        ? { status: 'verified', method: 'root scan', detail: "No real root was found, matching the answer." }
+        : { status: 'mismatch', method: 'root scan', detail: `The equation has a real solution ${variable} ≈ ${formatNumber(roots[0])}.` };
+    }
+
+    const values = parseAnswerValues(answer);
+    if (!values) return unverified("Could not read numeric values from the final answer.");
+    // x_1, x_2 are just labels for roots of a single-variable equation.
+    if (values.some(v => v.name && v.name !== variable && !v.name.startsWith(`${variable}_`))) {
+      return unverified("The final answer names a different variable than the problem.");
+    }
+
+    for (const { value, approximate } of values) {
+      const left = evaluate(lhs, { [variable]: value });
+      const right = evaluate(rhs, { [variable]: value });
+      if (!nearlyEqual(left, right, approximate ? 1e-2 : 1e-6)) {
+        return {
+          status: 'mismatch',
+          method: 'substitution',
+          detail: `Substituting ${variable} = ${formatNumber(value)} gives ${formatNumber(left)} ≠ ${formatNumber(right)}.`
+        };
+      }
+      if (readable && !allowed(value)) {
+        return { status: 'mismatch', method: 'substitution', detail: `${variable} = ${formatNumber(value)} is outside the range the problem allows.` };
+      }
+    }
+
+    if (!readable) {
+      return unverified("The values satisfy the equation, but the problem restricts its solutions in a way the local checker can't read.");
+    }
+
+    if (canScan) {
+      const missing = findRealRoots(f).filter(allowed).find(root =>
+        !values.some(v => Math.abs(v.value - root) < (v.approximate ? 1e-2 : 1e-4))
+      );
+      if (missing !== undefined) {
+        return {
+          status: 'mismatch',
+          method: 'root scan',
+          detail: `The answer is missing the solution ${variable} ≈ ${formatNumber(missing)}.`
+        };
+      }
+    }
+
+    return {
+      status: 'verified',
+      method: 'substitution',
+      detail: `Substituting ${values.map(v => `${variable} = ${formatNumber(v.value)}`).join(', ')} satisfies the equation.`
+    };
+  }
+
+  // Systems of equations: every variable must be assigned and every equation satisfied.
+  const values = parseAnswerValues(answer);
+  if (!values || values.some(v => !v.name)) return unverified("Could not read variable assignments from the final answer.");
+  const scope = Object.fromEntries(values.map(v => [v.name!, v.value]));
+  const unassigned = names.filter(n => !(n in scope));
+  if (unassigned.length > 0) return unverified(`The final answer does not give a value for ${unassigned.join(', ')}.`);
+
+  const tolerance = values.some(v => v.approximate) ? 1e-2 : 1e-6;
+  for (const [lhs, rhs] of equations) {
+    const left = evaluate(lhs, scope);
+    const right = evaluate(rhs, scope);
+    if (!nearlyEqual(left, right, tolerance)) {
+      return {
+        status: 'mismatch',
+        method: 'substitution',
+        detail: `With ${values.map(v => `${v.name} = ${formatNumber(v.value)}`).join(', ')} one equation gives ${formatNumber(left)} ≠ ${formatNumber(right)}.`
+      };
+    }
+  }
+  return { status: 'verified', method: 'substitution', detail: "The values satisfy every equation in the system." };
+};
+
+const verifyDerivative = (expression: MathNode, variable: string, answer: string): VerificationResult => {
+  const claimed = answerExpression(answer);
+  if (!claimed) return unverified("Could not read the derivative in the final answer.");
+
+  let checked = 0;
+  for (const point of samplePoints([variable], 16)) {
+    const expected = derivativeAt(expression, variable, point);
+    const actual = evaluate(claimed, point);
+    if (!Number.isFinite(expected) || !Number.isFinite(actual)) continue;
+    if (!nearlyEqual(expected, actual, 1e-4)) {
+      return {
+        status: 'mismatch',
+        method: 'numeric differentiation',
+        detail: `At ${variable} = ${formatNumber(point[variable])} the derivative is ≈ ${formatNumber(expected)}, but the answer gives ${formatNumber(actual)}.`
+      };
+    }
+    checked++;
+  }
+  return checked >= 3
+    ? { status: 'verified', method: 'numeric differentiation', detail: `The answer matches the numeric derivative at ${checked} sample points.` }
+    : unverified("The derivative could not be evaluated at enough points.");
+};
+
+// Each bound is a braced group or, as in TeX, a single token: `\int_0^{\pi}`, `\int_{-1}^2`.
+const DEFINITE_INTEGRAL_LATEX = /\\int_(?:\{([^{}]+)\}|([^{}^\s]+))\^(?:\{([^{}]+)\}|(\\[a-zA-Z]+|[^{}\s\\]))\s*(.+?)\\?[,;!]?\s*d([a-z])\s*$/;
+const DEFINITE_INTEGRAL_TEXT = /integral\s+(?:of\s+)?(.+?)\s+from\s+(\S+)\s+to\s+(\S+)/i;
+const DEFINITE_INTEGRAL_TEXT_BOUNDS_FIRST = /integral\s+from\s+(\S+)\s+to\s+(\S+)\s+of\s+(.+)/i;
+
+const verifyIntegral = (problem: string, answer: string): VerificationResult | null => {
+  let lower: string, upper: string, body: string, variable = 'x';
+  const latex = problem.replace(/\$/g, '').trim().match(DEFINITE_INTEGRAL_LATEX);
+  const text = problem.match(DEFINITE_INTEGRAL_TEXT_BOUNDS_FIRST) || problem.match(DEFINITE_INTEGRAL_TEXT);
+
+  if (latex) {
+    lower = latex[1] ?? latex[2];
+    upper = latex[3] ?? latex[4];
+    [, , , , , body, variable] = latex;
+  } else if (text && text[0].toLowerCase().includes('integral from')) {
+    [, lower, upper, body] = text;
+  } else if (text) {
+    [, body, lower, upper] = text;
+  } else {
+    return null;
+  }
+  const dx = body.match(/\s*d([a-z])\s*$/);
+  if (dx) {
+    variable = dx[1];
+    body = body.slice(0, dx.index);
+  }
+
+  const integrand = tryParseMath(body);
+  const a = tryParseMath(lower);
+  const b = tryParseMath(upper);
+  const claimed = answerExpression(answer);
+  if (!integrand || !a || !b) return unverified("Could not read the integrand or its bounds.");
+  if (!claimed || collectVariables(claimed).size > 0) return unverified("Could not read a numeric value from the final answer.");
+
+  try {
+    const expected = integrate(integrand, variable, evaluate(a), evaluate(b));
+    const actual = evaluate(claimed);
+    if (!Number.isFinite(expected)) return unverified("The integral could not be evaluated numerically.");
+    return nearlyEqual(expected, actual, 1e-5)
+      ? { status: 'verified', method: 'numeric quadrature', detail: `Numeric quadrature gives ≈ ${formatNumber(expected)}, matching the answer.` }
+      : { status: 'mismatch', method: 'numeric quadrature', detail: `Numeric quadrature gives ≈ ${formatNumber(expected)}, but the answer is ${formatNumber(actual)}.` };
+  } catch {
+    return unverified("The integral could not be evaluated numerically.");
+  }
+};
+
+const parseEquations = (segments: string[]): [MathNode, MathNode][] | null => {
+  const pieces = segments
+    .flatMap(s => s.split(/\\\\|\n|;|,|\band\b|\\text\{\s*and\s*\}|\\quad/))
+    .map(s => s.replace(/\\begin\{[^}]*\}|\\end\{[^}]*\}|&/g, '').trim())
+    // "x \ge 0" is a condition, not an equation.
+    .filter(s => s.includes('=') && !COMPARISON.test(s));
+  if (pieces.length === 0) return null;
+
+  const equations: [MathNode, MathNode][] = [];
+  for (const piece of pieces) {
+    const sides = piece.split('=');
+    if (sides.length !== 2) return null;
+    const lhs = tryParseMath(sides[0]);
+    const rhs = tryParseMath(sides[1]);
+    if (!lhs || !rhs) return null;
+    equations.push([lhs, rhs]);
+  }
+  return equations;
+};
+
+const verifyProblem = (problem: string, answer: string): VerificationResult => {
+  const integral = /\\int|integral/i.test(problem) ? verifyIntegral(problem, answer) : null;
+  if (integral) return integral;
+
+  const segments = extractMathSegments(problem)
+    .map(segment => stripInstructions(segment.replace(CONDITION_CLAUSE, '')))
+    .filter(Boolean);
+  if (segments.length === 0) return unverified("No mathematical expression was found in the problem.");
+
+  const derivative = problem.match(/derivative|differentiate|\\frac\{d\}\{d([a-z])\}|d\/d([a-z])/i);
+  if (derivative) {
+    const source = segments[segments.length - 1]
+      .replace(/\\frac\{d\}\{d[a-z]\}|d\/d[a-z]/g, '');
+    // "f(x) = x^3 + 2x" — differentiate the right-hand side.
+    const expression = tryParseMath(source.split('=').pop() || '');
+    if (!expression) return unverified("Could not read the function to differentiate.");
+    const variable = derivative[1] || derivative[2] || [...collectVariables(expression)][0] || 'x';
+    return verifyDerivative(expression, variable, answer);
+  }
+
+  const equations = parseEquations(segments);
+  if (equations) return verifyEquations(equations, answer, parseConditions(problem));
+
+  const expression = tryParseMath(segments.join(' '));
+  if (!expression) return unverified("Could not read the problem expression.");
+
+  // "Find the roots of x^2 - 5x + 6" is an equation in disguise.
+  if (collectVariables(expression).size > 0 && /^\s*\$?\s*[a-zA-Z](_\w+)?\s*=/.test(answer)) {
+    return verifyEquations([[expression, { type: 'num', value: 0 }]], answer);
+  }
+
+  const isRewrite = /simplify|expand|factor|evaluate|compute|calculate|multiply|add|subtract|divide/i.test(problem)
+    || collectVariables(expression).size === 0;
+  if (!isRewrite) return unverified("This problem type is not covered by the local checker.");
+
+  const claimed = answerExpression(answer);
+  if (!claimed) return unverified("Could not read the final answer as an expression.");
+  const equivalent = expressionsEquivalent(expression, claimed);
+  if (equivalent === null) return unverified("The expressions could not be compared numerically.");
+  return equivalent
+    ? { status: 'verified', method: 'numeric equivalence', detail: "The answer is equivalent to the original expression at every sample point." }
+    : { status: 'mismatch', method: 'numeric equivalence', detail: "The answer is not equivalent to the original expression." };
+};
+
+/**
+ * Checks a solution's final answer locally. The user's wording is tried
+ * first, then the model's own problem description (useful for image input).
+ */
+export const verifySolution = (problem: string, response: SolveResponse): VerificationResult => {
+  let result = unverified("This problem type is not covered by the local checker.");
+  for (const candidate of [problem, response.description].filter(Boolean)) {
+    try {
+      result = verifyProblem(candidate, response.finalAnswer);
+    } catch {
+      result = unverified("The problem could not be evaluated locally.");
+    }
+    if (result.status !== 'unverified') return result;
+  }
+  return result;
+};
@@ -0,0 +1,189 @@
+/**
+ * Converts the ASCII math students type (`x^(n+1)/2`, `sqrt(x)`, `alpha <= pi`)
+ * into LaTeX for the composer's live preview. LaTeX that is typed or inserted
+ * from the palette passes through unchanged.
+ */
+
+type Node =
+  | { type: 'token'; value: string }
+  | { type: 'group'; open: string; close: string; items: Node[] };
+
+interface Piece {
+  tex: string;
+  // Something an exponent, subscript or fraction bar can attach to.
+  atom: boolean;
+  // Content of a round-bracket group, which drops its brackets inside \frac{}, ^{} and \sqrt{}.
+  inner?: string;
+  op?: '^' | '_' | '/';
+  apply?: 'sqrt' | 'abs' | 'function';
+  space?: boolean;
+}
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda',
+  'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Phi', 'Psi', 'Omega'
+];
+
+const FUNCTIONS = ['sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'log', 'ln', 'exp'];
+
+const WORDS: Record<string, string> = {
+  ...Object.fromEntries(GREEK.map(name => [name, `\\${name}`])),
+  ...Object.fromEntries(FUNCTIONS.map(name => [name, `\\${name}`])),
+  inf: '\\infty',
+  infinity: '\\infty',
+  oo: '\\infty',
+  int: '\\int',
+  oint: '\\oint',
+  sum: '\\sum',
+  prod: '\\prod',
+  lim: '\\lim',
+  deg: '^\\circ'
+};
+
+const OPERATORS: Record<string, string> = {
+  '<=': '\\le',
+  '>=': '\\ge',
+  '!=': '\\ne',
+  '->': '\\to',
+  '=>': '\\implies',
+  '+-': '\\pm',
+  '*': '\\cdot'
+};
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const tokenize = (text: string): string[] =>
+  text.match(/\\[a-zA-Z]+|\\.|\d+(?:\.\d+)?|[a-zA-Z]+|<=|>=|!=|->|=>|\+-|\*\*|\s+|[\s\S]/g) || [];
+
+const parse = (tokens: string[]): Node[] => {
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { type: 'group' }>; parent: Node[] }[] = [];
+  let current = root;
+  for (const token of tokens) {
+    if (CLOSERS[token]) {
+      const node: Node = { type: 'group', open: token, close: CLOSERS[token], items: [] };
+      current.push(node);
+      stack.push({ node, parent: current });
+      current = node.items;
+    } else if (stack.length > 0 && token === stack[stack.length - 1].node.close) {
+      current = stack.pop()!.parent;
+    } else {
+      current.push({ type: 'token', value: token });
+    }
+  }
+  // Brackets still open render without their closer, as typed so far.
+  stack.forEach(({ node }) => { node.close = ''; });
+  return root;
+};
+
+const pieceFor = (node: Node): Piece => {
+  if (node.type === 'group') {
+    const inner = renderNodes(node.items);
+    if (node.open === '{') return { tex: `{${inner}}`, atom: true, inner };
+    return { tex: `${node.open}${inner}${node.close}`, atom: true, inner: node.open === '(' && node.close ? inner : undefined };
+  }
+  const { value } = node;
+  if (/^\s+$/.test(value)) return { tex: ' ', atom: false, space: true };
+  if (value === '^' || value === '**') return { tex: '^', atom: false, op: '^' };
+  if (value === '_') return { tex: '_', atom: false, op: '_' };
+  if (value === '/') return { tex: '/', atom: false, op: '/' };
+  if (value === 'sqrt') return { tex: '\\sqrt', atom: true, apply: 'sqrt' };
+  if (value === 'abs') return { tex: 'abs', atom: true, apply: 'abs' };
+  if (FUNCTIONS.includes(value)) return { tex: WORDS[value], atom: true, apply: 'function' };
+  if (WORDS[value]) return { tex: WORDS[value], atom: true };
+  if (OPERATORS[value]) return { tex: OPERATORS[value], atom: false };
+  return { tex: value, atom: /^[\w.\\]/.test(value) };
+};
+
+// The content of a bracketed argument without its round brackets.
+const argument = (piece: Piece) => piece.inner ?? piece.tex;
+
+const renderNodes = (nodes: Node[]): string => {
+  let pieces = nodes.map(pieceFor);
+
+  // sqrt(x), abs(x), sin(x): a function name directly followed by its bracketed argument.
+  pieces = pieces.reduce<Piece[]>((out, piece) => {
+    const prev = out[out.length - 1];
+    if (prev?.apply && piece.inner !== undefined) {
+      const tex = prev.apply === 'sqrt' ? `\\sqrt{${piece.inner}}`
+        : prev.apply === 'abs' ? `\\left|${piece.inner}\\right|`
+        : `${prev.tex}\\left(${piece.inner}\\right)`;
+      out[out.length - 1] = { tex, atom: true };
+      return out;
+    }
+    out.push(piece);
+    return out;
+  }, []);
+
+  // Exponents and subscripts bind to the atom that follows them.
+  pieces = pieces.reduce<Piece[]>((out, piece) => {
+    const prev = out[out.length - 1];
+    if ((prev?.op === '^' || prev?.op === '_') && piece.atom) {
+      const script = `${prev.tex}{${argument(piece)}}`;
+      const base = out[out.length - 2];
+      if (base?.atom) out.splice(out.length - 2, 2, { tex: base.tex + script, atom: true });
+      else out[out.length - 1] = { tex: script, atom: false };
+      return out;
+    }
+    out.push(piece);
+    return out;
+  }, []);
+
+  // a/b becomes \frac{a}{b}, ignoring spaces around the bar.
+  for (let i = 0; i < pieces.length; i++) {
+    if (pieces[i].op !== '/') continue;
+    let left = i - 1;
+    while (left >= 0 && pieces[left].space) left--;
+    let right = i + 1;
+    while (right < pieces.length && pieces[right].space) right++;
+    if (left < 0 || right >= pieces.length || !pieces[left].atom || !pieces[right].atom) continue;
+    const frac: Piece = { tex: `\\frac{${argument(pieces[left])}}{${argument(pieces[right])}}`, atom: true };
+    pieces.splice(left, right - left + 1, frac);
+    i = left;
+  }
+
+  // Commands need a space before a following letter: \pi x, not \pix.
+  return pieces.reduce((tex, piece) =>
+    /\\[a-zA-Z]+$/.test(tex) && /^[a-zA-Z]/.test(piece.tex) ? `${tex} ${piece.tex}` : tex + piece.tex, '');
+};
+
+export const asciiToLatex = (text: string): string => renderNodes(parse(tokenize(text))).trim();
+
+// Words that read as prose even though they are short, and math words that are long.
+const PROSE_WORDS = new Set(['if', 'of', 'to', 'is', 'at', 'in', 'on', 'by', 'an', 'be', 'as', 'so', 'we', 'it', 'or']);
+const MATH_WORDS = new Set([...Object.keys(WORDS), 'sqrt', 'abs', 'max', 'min', 'mod', 'det']);
+
+const isProse = (word: string) => {
+  const bare = word.replace(/[,.?!:;]+$/, '');
+  if (!/^[A-Za-z]+$/.test(bare)) return false;
+  const lower = bare.toLowerCase();
+  return PROSE_WORDS.has(lower) || (bare.length >= 3 && !MATH_WORDS.has(bare) && !MATH_WORDS.has(lower));
+};
+
+/**
+ * One line of the preview: prose is kept as text and the math in between is
+ * converted and wrapped in `$...$`. Lines that already use `$` are left alone.
+ */
+export const previewLine = (line: string): string => {
+  if (line.includes('$')) return line;
+  const parts: string[] = [];
+  let math: string[] = [];
+  const flush = () => {
+    if (math.length > 0) parts.push(`$${asciiToLatex(math.join(' '))}$`);
+    math = [];
+  };
+  for (const word of line.split(/\s+/).filter(Boolean)) {
+    if (isProse(word)) {
+      flush();
+      parts.push(word);
+    } else {
+      math.push(word);
+    }
+  }
+  flush();
+  return parts.join(' ');
+};
+
+export const hasMath = (text: string) =>
+  text.split('\n').some(line => line.includes('$') || line.split(/\s+/).some(word => word && !isProse(word)));
@@ -0,0 +1,18 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, starting
+ * each item as soon as a slot frees up. Items are started in order.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+};
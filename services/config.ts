@@ -0,0 +1,28 @@
+export type SolverProviderName = 'gemini' | 'mock';
+
+export interface SolverConfig {
+  provider: SolverProviderName;
+  model: string;
+  apiKey: string;
+  mockLatencyMs: number;
+}
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+// The mock provider is opt-in: a missing key should surface as an error, not as canned answers.
+const parseProvider = (value: string | undefined): SolverProviderName =>
+  value === 'mock' ? 'mock' : 'gemini';
+
+/**
+ * Solver settings come from the Vite environment (`.env.local`):
+ * SOLVER_PROVIDER, SOLVER_MODEL, SOLVER_MOCK_LATENCY_MS and GEMINI_API_KEY.
+ */
+export const loadSolverConfig = (env: ImportMetaEnv = import.meta.env): SolverConfig => {
+  const apiKey = env.GEMINI_API_KEY || '';
+  return {
+    provider: parseProvider(env.SOLVER_PROVIDER),
+    model: env.SOLVER_MODEL || DEFAULT_GEMINI_MODEL,
+    apiKey,
+    mockLatencyMs: Number(env.SOLVER_MOCK_LATENCY_MS) || 0
+  };
+};
@@ -0,0 +1,112 @@
+import { Content, Part } from "@google/genai";
+import { Message, MessageRole, SolveResponse } from "../types";
+import { dataUrlMimeType } from "./imagePreprocess";
+
+// Rough budget for prior turns sent along with a follow-up question.
+export const HISTORY_TOKEN_BUDGET = 6000;
+// Gemini bills a typical inline image at a flat 258 tokens.
+const IMAGE_TOKEN_COST = 258;
+const SUMMARY_MAX_TURNS = 10;
+
+interface Turn {
+  question: Message;
+  answer: SolveResponse;
+}
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const imagePart = (image: string): Part => ({
+  inlineData: {
+    // Uploads may be JPEG after preprocessing; drawings are PNG.
+    mimeType: dataUrlMimeType(image) || "image/png",
+    data: image.split(',')[1] || image
+  }
+});
+
+/**
+ * The text sent for a question. A confirmed transcription is spelled out so the
+ * model solves what the student approved rather than re-reading the image.
+ */
+export const questionText = (input: string, transcription?: string) =>
+  transcription
+    ? `${input}
+
+Confirmed transcription of the attached image: $${transcription}$
+Treat this transcription as authoritative; use the image only for context such as diagrams or layout.`
+    : input;
+
+// Only completed question/solution pairs are useful context; failed attempts are skipped.
+const collectTurns = (messages: Message[]): Turn[] => {
+  const turns: Turn[] = [];
+  messages.forEach((msg, idx) => {
+    const next = messages[idx + 1];
+    if (msg.role === MessageRole.USER && next?.role === MessageRole.ASSISTANT && next.metadata) {
+      turns.push({ question: msg, answer: next.metadata });
+    }
+  });
+  return turns;
+};
+
+/** Everything the earlier turns contribute to a follow-up, or '' when there are none. */
+export const historyFingerprint = (messages: Message[]) =>
+  collectTurns(messages)
+    .map(turn => [questionText(turn.question.content, turn.question.transcription), turn.question.image || '', JSON.stringify(turn.answer)].join('\n'))
+    .join('\n\n');
+
+const turnCost = (turn: Turn) =>
+  estimateTokens(questionText(turn.question.content, turn.question.transcription)) +
+  estimateTokens(JSON.stringify(turn.answer)) +
+  (turn.question.image ? IMAGE_TOKEN_COST : 0);
+
+const summarizeTurns = (turns: Turn[]): string => {
+  const lines = turns.slice(-SUMMARY_MAX_TURNS).map(t =>
+    `- Problem: ${t.answer.description || t.question.content} → Final answer: ${t.answer.finalAnswer}`
+  );
+  const omitted = turns.length - lines.length;
+  return [
+    "Summary of earlier problems in this session:",
+    ...(omitted > 0 ? [`- (${omitted} older problem${omitted === 1 ? '' : 's'} omitted)`] : []),
+    ...lines
+  ].join('\n');
+};
+
+/**
+ * Converts prior session messages into Gemini conversation contents.
+ * The newest turns are sent verbatim until the token budget runs out;
+ * anything older is collapsed into a short summary on the first kept turn.
+ */
+export const buildConversationHistory = (
+  messages: Message[],
+  budget = HISTORY_TOKEN_BUDGET
+): Content[] => {
+  const turns = collectTurns(messages);
+  let used = 0;
+  let firstKept = turns.length;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = turnCost(turns[i]);
+    if (used + cost > budget) break;
+    used += cost;
+    firstKept = i;
+  }
+
+  const older = turns.slice(0, firstKept);
+  const kept = turns.slice(firstKept);
+  const contents: Content[] = [];
+
+  kept.forEach((turn, idx) => {
+    const parts: Part[] = [];
+    if (idx === 0 && older.length > 0) parts.push({ text: summarizeTurns(older) });
+    if (turn.question.image) parts.push(imagePart(turn.question.image));
+    parts.push({ text: questionText(turn.question.content, turn.question.transcription) });
+    contents.push({ role: 'user', parts });
+    contents.push({ role: 'model', parts: [{ text: JSON.stringify(turn.answer) }] });
+  });
+
+  if (kept.length === 0 && older.length > 0) {
+    contents.push({ role: 'user', parts: [{ text: summarizeTurns(older) }] });
+    contents.push({ role: 'model', parts: [{ text: "Understood. I will use this context for follow-up questions." }] });
+  }
+
+  return contents;
+};
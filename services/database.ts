@@ -0,0 +1,80 @@
+import { ChatHistoryItem, ChatSession } from "../types";
+
+const DB_NAME = 'math_solver';
+// 2: added the outbox of problems submitted while offline.
+// 3: added the cache of solved problems.
+const DB_VERSION = 3;
+const LEGACY_HISTORY_KEY = 'math_solver_history';
+
+export const SESSION_STORE = 'sessions';
+export const OUTBOX_STORE = 'outbox';
+export const SOLUTION_CACHE_STORE = 'solution_cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// The history kept in localStorage before IndexedDB: titles and the last answer, no messages.
+const readLegacyHistory = (): ChatHistoryItem[] => {
+  try {
+    const items = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || '[]');
+    return Array.isArray(items) ? items.filter(item => item && typeof item.id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      // Old history entries become title-only sessions; the key is only dropped once they are stored.
+      if (localStorage.getItem(LEGACY_HISTORY_KEY) !== null) {
+        const sessions = request.transaction.objectStore(SESSION_STORE);
+        for (const item of readLegacyHistory()) {
+          const timestamp = Number(item.timestamp) || Date.now();
+          // Prefixed so an old id can never overwrite a session saved since.
+          const session: ChatSession = { id: `legacy-${item.id}`, title: String(item.title || 'Math Problem'), createdAt: timestamp, updatedAt: timestamp, messages: [] };
+          sessions.put(session);
+        }
+        request.transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_HISTORY_KEY));
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(SOLUTION_CACHE_STORE)) {
+        const store = db.createObjectStore(SOLUTION_CACHE_STORE, { keyPath: 'key' });
+        store.createIndex('usedAt', 'usedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+};
@@ -0,0 +1,139 @@
+import { spokenToLatex } from "./spokenMath";
+
+const DICTATION_LANGUAGE_KEY = 'math_solver_dictation_lang';
+
+// Spoken math is only converted for English; other languages are inserted as heard.
+export const DICTATION_LANGUAGES: { tag: string; label: string }[] = [
+  { tag: 'en-US', label: 'English (US)' },
+  { tag: 'en-GB', label: 'English (UK)' },
+  { tag: 'en-IN', label: 'English (India)' },
+  { tag: 'hi-IN', label: 'हिन्दी' },
+  { tag: 'es-ES', label: 'Español' },
+  { tag: 'fr-FR', label: 'Français' },
+  { tag: 'de-DE', label: 'Deutsch' },
+  { tag: 'pt-BR', label: 'Português (Brasil)' }
+];
+
+export interface DictationHandlers {
+  // The words heard so far in the current phrase, which may still change.
+  onInterim: (text: string) => void;
+  // A finished phrase, already converted to LaTeX where it was math.
+  onFinal: (text: string) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+export interface Dictation {
+  stop: () => void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied. Allow it in the browser to dictate.',
+  'service-not-allowed': 'Microphone access was denied. Allow it in the browser to dictate.',
+  'audio-capture': 'No microphone was found.',
+  'network': 'Dictation needs an internet connection in this browser.',
+  'language-not-supported': 'Dictation is not available in this language.'
+};
+
+// Errors after which listening again would only fail again.
+const FATAL_ERRORS = Object.keys(ERROR_MESSAGES);
+
+// TypeScript's DOM types have the results but not the recognizer; this is the part used here.
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+const recognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export const dictationSupported = () => !!recognitionConstructor();
+
+export const loadDictationLanguage = () => {
+  const stored = localStorage.getItem(DICTATION_LANGUAGE_KEY);
+  return DICTATION_LANGUAGES.some(l => l.tag === stored) ? stored! : DICTATION_LANGUAGES[0].tag;
+};
+
+export const saveDictationLanguage = (tag: string) => localStorage.setItem(DICTATION_LANGUAGE_KEY, tag);
+
+export const dictationText = (transcript: string, lang: string) =>
+  lang.startsWith('en') ? spokenToLatex(transcript.trim()) : transcript.trim();
+
+/** Adds dictated text after what is already typed, separated by a space. */
+export const appendDictation = (current: string, addition: string) => {
+  if (!addition) return current;
+  if (!current.trim()) return addition;
+  return /\s$/.test(current) ? current + addition : `${current} ${addition}`;
+};
+
+/**
+ * Listens until stopped. Browsers end recognition after a pause in speech,
+ * so it is restarted until `stop` is called or an error makes that pointless.
+ */
+export const startDictation = (lang: string, handlers: DictationHandlers): Dictation => {
+  const Recognition = recognitionConstructor();
+  if (!Recognition) throw new Error('Voice input is not supported in this browser.');
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  let stopped = false;
+
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) handlers.onFinal(dictationText(result[0].transcript, lang));
+      else interim += result[0].transcript;
+    }
+    handlers.onInterim(interim.trim());
+  };
+
+  recognition.onerror = (event) => {
+    if (!FATAL_ERRORS.includes(event.error)) return;
+    stopped = true;
+    handlers.onError(ERROR_MESSAGES[event.error]);
+  };
+
+  recognition.onend = () => {
+    if (!stopped) {
+      try {
+        recognition.start();
+        return;
+      } catch {
+        // Fall through and report the end.
+      }
+    }
+    handlers.onEnd();
+  };
+
+  recognition.start();
+  return {
+    stop: () => {
+      stopped = true;
+      recognition.stop();
+    }
+  };
+};
@@ -0,0 +1,138 @@
+import { PracticeProblem, SolveResponse, WorksheetProblem } from "../../types";
+
+/**
+ * Canned solutions for the offline mock provider, keyed by normalized problem text
+ * (see `normalizeProblemKey`). Keep the keys already normalized.
+ */
+export const MOCK_SOLUTIONS: Record<string, SolveResponse> = {
+  '2x+5=15': {
+    description: "Solve the linear equation $2x + 5 = 15$ for $x$.",
+    concepts: ["Linear Equations", "Inverse Operations"],
+    steps: [
+      {
+        title: "Isolate the variable term",
+        explanation: "Subtract 5 from both sides to remove the constant from the left.",
+        math: "$$2x + 5 - 5 = 15 - 5 \\implies 2x = 10$$",
+        hint: "What could you do to both sides to get rid of the $+5$?"
+      },
+      {
+        title: "Divide by the coefficient",
+        explanation: "Divide both sides by 2 so that $x$ stands alone.",
+        math: "$$\\frac{2x}{2} = \\frac{10}{2} \\implies x = 5$$",
+        hint: "$x$ is being multiplied by 2. Which operation undoes that?"
+      }
+    ],
+    finalAnswer: "$x = 5$",
+    tutoringTip: "Undo operations in the reverse order they were applied: addition first, then multiplication."
+  },
+  'x^2-5x+6=0': {
+    description: "Solve the quadratic equation $x^2 - 5x + 6 = 0$.",
+    concepts: ["Quadratic Equations", "Factoring", "Zero Product Property"],
+    steps: [
+      {
+        title: "Factor the quadratic",
+        explanation: "Find two numbers that multiply to 6 and add to -5: they are -2 and -3.",
+        math: "$$x^2 - 5x + 6 = (x - 2)(x - 3)$$",
+        hint: "Which two numbers multiply to $6$ and add up to $-5$?"
+      },
+      {
+        title: "Apply the zero product property",
+        explanation: "A product is zero only if one of its factors is zero.",
+        math: "$$x - 2 = 0 \\quad \\text{or} \\quad x - 3 = 0$$",
+        hint: "When can a product of two factors equal zero?"
+      }
+    ],
+    finalAnswer: "$x = 2$ or $x = 3$",
+    tutoringTip: "For $x^2 + bx + c$, look for two numbers whose product is $c$ and whose sum is $b$.",
+    graph: {
+      functions: [{ expression: "x^2 - 5x + 6", label: "f" }],
+      points: [
+        { x: 2, y: 0, kind: 'root', label: "Root x = 2", isAnswer: true },
+        { x: 3, y: 0, kind: 'root', label: "Root x = 3", isAnswer: true },
+        { x: 2.5, y: -0.25, kind: 'extremum', label: "Vertex" },
+        { x: 0, y: 6, kind: 'intercept', label: "y-intercept" }
+      ],
+      regions: [],
+      xRange: [-1, 6],
+      yRange: [-2, 8]
+    }
+  },
+  'differentiatex^3+2x': {
+    description: "Find the derivative of $f(x) = x^3 + 2x$.",
+    concepts: ["Power Rule", "Sum Rule"],
+    steps: [
+      {
+        title: "Differentiate term by term",
+        explanation: "The derivative of a sum is the sum of the derivatives.",
+        math: "$$\\frac{d}{dx}(x^3 + 2x) = \\frac{d}{dx}x^3 + \\frac{d}{dx}2x$$",
+        hint: "Can you differentiate each term of the sum separately?"
+      },
+      {
+        title: "Apply the power rule",
+        explanation: "Bring the exponent down and reduce it by one.",
+        math: "$$3x^2 + 2$$",
+        hint: "What does the power rule give for $x^3$, and for $2x$?"
+      }
+    ],
+    finalAnswer: "$f'(x) = 3x^2 + 2$",
+    tutoringTip: "Power rule: multiply by the exponent, then subtract one from it."
+  }
+};
+
+export const mockFallbackSolution = (input: string): SolveResponse => ({
+  description: `Offline mock solution for: ${input || "the attached problem"}`,
+  concepts: ["Mock Provider"],
+  steps: [
+    {
+      title: "No fixture found",
+      explanation: "The mock provider has no canned solution for this input. Add one to services/fixtures/mockSolutions.ts.",
+      math: "$$\\text{input} \\mapsto \\text{fixture}$$"
+    }
+  ],
+  finalAnswer: "$\\text{N/A}$"
+});
+
+// What the mock provider "reads" from any handwritten or photographed image.
+export const MOCK_TRANSCRIPTION = "2x + 5 = 15";
+
+// The exercises the mock provider "finds" on any worksheet, stacked top to bottom.
+export const MOCK_WORKSHEET: WorksheetProblem[] = [
+  { id: 'mock-sheet-1', label: '1', text: "2x + 5 = 15", region: { x: 0.05, y: 0.05, width: 0.9, height: 0.25 } },
+  { id: 'mock-sheet-2', label: '2', text: "x^2 - 5x + 6 = 0", region: { x: 0.05, y: 0.37, width: 0.9, height: 0.25 } },
+  { id: 'mock-sheet-3', label: '3', text: "Differentiate x^3 + 2x", region: { x: 0.05, y: 0.69, width: 0.9, height: 0.25 } }
+];
+
+/**
+ * Deterministic linear-equation drills used as mock practice sets.
+ */
+export const mockPracticeProblems = (count: number): PracticeProblem[] =>
+  Array.from({ length: count }, (_, idx) => {
+    const a = idx + 2;
+    const x = idx + 3;
+    const b = 2 * idx + 1;
+    const c = a * x + b;
+    const problem = `Solve $${a}x + ${b} = ${c}$ for $x$.`;
+    return {
+      id: `mock-practice-${idx}`,
+      problem,
+      solution: {
+        description: problem,
+        concepts: ["Linear Equations", "Inverse Operations"],
+        steps: [
+          {
+            title: "Isolate the variable term",
+            explanation: `Subtract ${b} from both sides.`,
+            math: `$$${a}x = ${c - b}$$`
+          },
+          {
+            title: "Divide by the coefficient",
+            explanation: `Divide both sides by ${a}.`,
+            math: `$$x = ${x}$$`
+          }
+        ],
+        finalAnswer: `$x = ${x}$`
+      },
+      attempts: [],
+      revealed: false
+    };
+  });
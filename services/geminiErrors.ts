@@ -0,0 +1,112 @@
+import { ApiError } from "@google/genai";
+import { SolveError, SolveErrorKind } from "../types";
+
+// Finish reasons that mean the reply was cut off by a content filter.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/**
+ * Thrown while streaming when Gemini stops a reply for safety reasons, which
+ * arrives as a normal response rather than as an HTTP error.
+ */
+export class GeminiBlockedError extends Error {
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Reply blocked: ${reason}`);
+    this.name = 'GeminiBlockedError';
+    this.reason = reason;
+  }
+}
+
+export const isSafetyFinish = (reason: string | undefined) => !!reason && SAFETY_FINISH_REASONS.has(reason);
+
+interface ApiErrorBody {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: Record<string, any>[];
+}
+
+// ApiError messages carry the JSON error body, sometimes after a "got status: ..." prefix.
+const parseErrorBody = (message: string): ApiErrorBody => {
+  const start = message.indexOf('{');
+  if (start === -1) return {};
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed?.error && typeof parsed.error === 'object' ? parsed.error : {};
+  } catch {
+    return {};
+  }
+};
+
+const secondsToMs = (text: string | undefined) => {
+  const seconds = parseFloat(text || '');
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+};
+
+/**
+ * Wait requested by a rate-limited response: the RetryInfo detail ("17s"),
+ * or failing that a "retry in 17.2s" sentence in the message.
+ */
+const retryAfterFrom = (body: ApiErrorBody): number | undefined => {
+  const retryInfo = body.details?.find(d => String(d['@type'] || '').endsWith('RetryInfo'));
+  return secondsToMs(retryInfo?.retryDelay) ?? secondsToMs(/retry in ([\d.]+)\s*s/i.exec(body.message || '')?.[1]);
+};
+
+// Daily (as opposed to per-minute) quotas won't recover by waiting a few seconds.
+const isDailyQuota = (body: ApiErrorBody) =>
+  !!body.details?.some(d => Array.isArray(d.violations) && d.violations.some((v: any) => /PerDay/i.test(String(v?.quotaId || ''))));
+
+const failure = (kind: SolveErrorKind, message: string, detail: string, extra: Partial<SolveError> = {}): SolveError =>
+  ({ kind, message, issues: [detail], ...extra });
+
+export const missingApiKeyError = (): SolveError =>
+  failure('missing_api_key', "No Gemini API key is configured. Add GEMINI_API_KEY to .env.local, or set SOLVER_PROVIDER=mock to work offline.", "GEMINI_API_KEY is empty");
+
+export const offTopicError = (refusal: string): SolveError =>
+  failure('off_topic', refusal.trim() || "I can only help with mathematics, physics and logic problems.", "request declined as off-topic");
+
+const isNetworkError = (error: unknown) =>
+  (typeof navigator !== 'undefined' && navigator.onLine === false)
+  || (error instanceof TypeError && /fetch|network|load failed/i.test(error.message));
+
+/**
+ * Sorts anything thrown while talking to Gemini into a `SolveError` category
+ * with a message the student can act on.
+ */
+export const classifyGeminiError = (error: unknown): SolveError => {
+  if (error instanceof GeminiBlockedError) {
+    return failure('safety_blocked', "This request was blocked by the solver's safety filters. Try rewording the problem or using a different image.", error.message);
+  }
+
+  const detail = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    const body = parseErrorBody(error.message);
+    const summary = body.message || detail;
+    if (error.status === 429) {
+      const retryAfterMs = retryAfterFrom(body);
+      if (isDailyQuota(body)) {
+        return failure('quota_exhausted', "The solver's daily quota is used up. It resets within a day; please try again later.", summary);
+      }
+      const wait = retryAfterMs !== undefined ? ` Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` : " Please wait a moment and try again.";
+      return failure('rate_limited', `The solver is getting too many requests right now.${wait}`, summary, { retryable: true, retryAfterMs });
+    }
+    const keyRejected = body.details?.some(d => d.reason === 'API_KEY_INVALID') || /api key/i.test(summary);
+    if (error.status === 401 || error.status === 403 || keyRejected) {
+      return failure('auth', "The Gemini API key was rejected. Check that GEMINI_API_KEY is valid and allowed to use this model.", summary);
+    }
+    if (RETRYABLE_STATUSES.has(error.status)) {
+      return failure('server', "The solver service is temporarily unavailable. Please try again in a minute.", summary, { retryable: true });
+    }
+    return failure('unknown', "The solver could not process this request.", summary);
+  }
+
+  if (isNetworkError(error)) {
+    return failure('network', "I couldn't reach the solver. Check your internet connection and try again.", detail, { retryable: true });
+  }
+
+  return failure('unknown', "Something went wrong while solving this problem.", detail);
+};
@@ -1,8 +1,22 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ExplanationLevel } from "../types";
+import { Content, GoogleGenAI, Type } from "@google/genai";
+import { ExplanationLevel, PracticeProblem, PracticeRequest, SolveError, SolveOptions, SolveMode, SolveRequest, SolveResult, SolverProvider, WorksheetProblem } from "../types";
+import { buildConversationHistory, imagePart, questionText } from "./conversationContext";
+import { parseSolveResponse, solveFailure, stripJsonWrapper, validateSolveResponse } from "./solveResponseSchema";
+import { SolveResponseStreamParser } from "./solveResponseStream";
+import { classifyGeminiError, GeminiBlockedError, isSafetyFinish, missingApiKeyError, offTopicError } from "./geminiErrors";
+import { withRetry } from "./retryPolicy";
 
-const getSystemInstruction = (level: ExplanationLevel) => {
+const TUTOR_INSTRUCTION = `
+Tutoring Mode:
+The student wants to work the problem out themselves. Your reply is revealed to them one step at a time, so:
+- Keep each step to a single operation the student can attempt on their own.
+- Give every step a 'hint': a guiding question or nudge that points towards the step without stating its result or its math.
+- End each step's 'math' with the exact equation or expression the student is expected to write for that step, since their attempt is compared against it.
+- Do not reveal the answer in the 'description'; restate the problem only.
+`;
+
+const getSystemInstruction = (level: ExplanationLevel, mode: SolveMode = 'solve') => {
   const levelDescriptions = {
     quick: "Focus on the final answer and minimal necessary steps. Be very concise.",
     standard: "Provide a balanced step-by-step guide suitable for high school students.",
@@ -14,78 +28,378 @@ const getSystemInstruction = (level: ExplanationLevel) => {
 Your goal is to help students learn by providing clear, step-by-step guidance.
 
 Level Adjustment: ${levelDescriptions[level]}
-
+${mode === 'tutor' ? TUTOR_INSTRUCTION : ''}
 Rules:
-1. Only solve mathematics, physics, or logic problems. Politely decline other subjects.
+1. Only solve mathematics, physics, or logic problems. For any other subject, set 'refusal' to one polite sentence saying what you can help with, and leave the other fields empty.
 2. If an image is provided, first describe the mathematical problem shown in the image accurately.
 3. List the core theorems, identities, or concepts required to solve the problem.
 4. Provide a step-by-step solution where each step is explained in plain English followed by the mathematical derivation.
 5. Use LaTeX (wrapped in $$ or $) for all mathematical expressions.
 6. Provide a clear 'Final Answer' section.
 7. Include a 'tutoringTip' which is a small piece of advice or a mnemonic to help the student remember this concept in the future.
+8. For problems about functions of x, equations or inequalities in one variable, add a 'graph' that is plotted next to the solution:
+   - 'functions': the curves to draw, each an 'expression' in x only (e.g. "x^2 - 5x + 6") with an optional short 'label'. For an equation f(x) = g(x), draw both sides.
+   - 'points': points of interest (roots, intercepts, extrema, intersections) with exact numeric 'x' and 'y', a 'kind', a short 'label', and 'isAnswer' true for the point(s) the final answer refers to.
+   - 'regions': for inequalities, integrals or areas, the shaded part between 'lower' and 'upper' curves from 'from' to 'to'; leave a curve out to shade to the edge of the plot.
+   - 'xRange' and 'yRange' ([min, max]) when a particular window shows the features best.
+   Leave 'graph' out for problems that have nothing to plot.
+9. Earlier turns of the conversation contain the student's previous problems and your previous solutions as JSON. When the new message is a follow-up (e.g. a question about a specific step), answer it in the same JSON format, referring to those earlier steps by number.
 
 Return your response in structured JSON format.`;
 };
 
-export const solveMathProblem = async (
-  input: string,
-  level: ExplanationLevel = 'standard',
-  image?: string
-) => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+}
+
+const getCorrectivePrompt = (error: SolveError) =>
+  `Your previous reply could not be used (${error.message}). Problems found:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+Reply again with ONLY the corrected JSON object, containing description, concepts, steps (each with title, explanation and math) and finalAnswer.`;
+
+const STEP_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    explanation: { type: Type.STRING },
+    math: { type: Type.STRING }
+  },
+  required: ["title", "explanation", "math"]
+};
+
+const TUTOR_STEP_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    ...STEP_SCHEMA.properties,
+    hint: { type: Type.STRING }
+  },
+  required: ["title", "explanation", "math", "hint"]
+};
+
+const GRAPH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    functions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { expression: { type: Type.STRING }, label: { type: Type.STRING } },
+        required: ["expression"]
+      }
+    },
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+          label: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['root', 'intercept', 'extremum', 'intersection', 'solution', 'other'] },
+          isAnswer: { type: Type.BOOLEAN }
+        },
+        required: ["x", "y"]
+      }
+    },
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          lower: { type: Type.STRING },
+          upper: { type: Type.STRING },
+          from: { type: Type.NUMBER },
+          to: { type: Type.NUMBER },
+          label: { type: Type.STRING }
+        }
+      }
+    },
+    xRange: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+    yRange: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+  },
+  required: ["functions"]
+};
 
-  const contents: any[] = [];
+const generate = (
+  ai: GoogleGenAI,
+  model: string,
+  level: ExplanationLevel,
+  mode: SolveMode,
+  contents: Content[],
+  signal?: AbortSignal
+) =>
+  ai.models.generateContentStream({
+    model,
+    contents,
+    config: {
+      abortSignal: signal,
+      systemInstruction: getSystemInstruction(level, mode),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          concepts: { 
+            type: Type.ARRAY, 
+            items: { type: Type.STRING }
+          },
+          steps: {
+            type: Type.ARRAY,
+            items: mode === 'tutor' ? TUTOR_STEP_SCHEMA : STEP_SCHEMA
+          },
+          finalAnswer: { type: Type.STRING },
+          tutoringTip: { type: Type.STRING },
+          graph: GRAPH_SCHEMA,
+          refusal: { type: Type.STRING }
+        },
+        required: ["description", "concepts", "steps", "finalAnswer"]
+      }
+    }
+  });
+
+// Streams one reply, reporting every newly completed section, and returns the full text.
+const streamReply = async (
+  ai: GoogleGenAI,
+  model: string,
+  level: ExplanationLevel,
+  mode: SolveMode,
+  contents: Content[],
+  { signal, onPartial }: SolveOptions
+): Promise<string> => {
+  const parser = new SolveResponseStreamParser();
+  const stream = await generate(ai, model, level, mode, contents, signal);
+  for await (const chunk of stream) {
+    // Safety blocks arrive as an ordinary reply with no text, not as an error.
+    const blockReason = chunk.promptFeedback?.blockReason;
+    const finishReason = chunk.candidates?.[0]?.finishReason;
+    if (blockReason) throw new GeminiBlockedError(blockReason);
+    if (isSafetyFinish(finishReason)) throw new GeminiBlockedError(finishReason!);
+    const partial = parser.push(chunk.text || '');
+    if (partial) onPartial?.(partial);
+  }
+  return parser.rawText;
+};
+
+// The model's refusal of an off-topic request, if that is what the reply is.
+const findRefusal = (text: string): string | null => {
+  try {
+    const parsed = JSON.parse(stripJsonWrapper(text));
+    return typeof parsed?.refusal === 'string' && parsed.refusal.trim() ? parsed.refusal : null;
+  } catch {
+    return null;
+  }
+};
+
+const solveWithGemini = async (
+  ai: GoogleGenAI,
+  model: string,
+  { input, level, image, history, mode = 'solve', transcription, guidance }: SolveRequest,
+  options: SolveOptions = {}
+): Promise<SolveResult> => {
+
+  const parts: any[] = [];
   
   if (image) {
-    const base64Data = image.split(',')[1] || image;
-    contents.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: base64Data
-      }
-    });
+    parts.push(imagePart(image));
   }
 
-  contents.push({ text: input || "Please solve this math problem step-by-step." });
+  parts.push({ text: questionText(input || "Please solve this math problem step-by-step.", transcription) });
+  if (guidance) parts.push({ text: guidance });
+
+  const contents: Content[] = [
+    ...buildConversationHistory(history),
+    { role: 'user', parts }
+  ];
+
+  // Transient failures (network, overload, rate limits) are retried with backoff before giving up.
+  const reply = (turns: Content[]) => withRetry(
+    () => streamReply(ai, model, level, mode, turns, options),
+    { classify: classifyGeminiError, signal: options.signal, onRetry: options.onRetry }
+  );
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts: contents },
-      config: {
-        systemInstruction: getSystemInstruction(level),
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            concepts: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING }
-            },
-            steps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  explanation: { type: Type.STRING },
-                  math: { type: Type.STRING }
-                },
-                required: ["title", "explanation", "math"]
-              }
-            },
-            finalAnswer: { type: Type.STRING },
-            tutoringTip: { type: Type.STRING }
-          },
-          required: ["description", "concepts", "steps", "finalAnswer"]
-        }
+    const text = await reply(contents);
+    const refusal = findRefusal(text);
+    if (refusal) return { ok: false, error: offTopicError(refusal) };
+    const result = parseSolveResponse(text);
+    if (result.ok === false) {
+      // One corrective round trip: show the model its own reply and what was wrong with it.
+      console.warn("Gemini returned an unusable solution, retrying:", result.error.issues);
+      const retryText = await reply([
+        ...contents,
+        { role: 'model', parts: [{ text: text || "(empty reply)" }] },
+        { role: 'user', parts: [{ text: getCorrectivePrompt(result.error) }] }
+      ]);
+      return parseSolveResponse(retryText);
+    }
+    return result;
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return solveFailure('aborted', "Stopped before the solution was complete.", ["request aborted by user"]);
+    }
+    console.error("Gemini API Error:", error);
+    return { ok: false, error: classifyGeminiError(error) };
+  }
+};
+
+const getPracticeInstruction = ({ source, level, count }: PracticeRequest) =>
+  `You write practice problems for a math student.
+The student just studied this problem: ${source.description}
+Its final answer was: ${source.finalAnswer}
+Concepts involved: ${source.concepts.join(', ')}
+
+Create ${count} NEW problems of the same type and difficulty that exercise the same concepts. Each problem must:
+1. Be self-contained, stated in one or two sentences with LaTeX (wrapped in $) for all math.
+2. Have a single, checkable final answer written in LaTeX (e.g. "$x = 4$" or "$3x^2 + 2$").
+3. Come with a worked solution as steps (title, explanation, math), explained at this level: ${level}.
+Do not reuse the original numbers.`;
+
+const generatePracticeWithGemini = async (
+  ai: GoogleGenAI,
+  model: string,
+  request: PracticeRequest
+): Promise<PracticeProblem[]> => {
+  const response = await withRetry(() => ai.models.generateContent({
+    model,
+    contents: getPracticeInstruction(request),
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          problems: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                problem: { type: Type.STRING },
+                finalAnswer: { type: Type.STRING },
+                steps: { type: Type.ARRAY, items: STEP_SCHEMA }
+              },
+              required: ["problem", "finalAnswer", "steps"]
+            }
+          }
+        },
+        required: ["problems"]
       }
+    }
+  }), { classify: classifyGeminiError });
+
+  const parsed = JSON.parse(stripJsonWrapper(response.text || '{}'));
+  const problems: PracticeProblem[] = [];
+  (Array.isArray(parsed.problems) ? parsed.problems : []).forEach((item: any, idx: number) => {
+    const result = validateSolveResponse({
+      description: item?.problem,
+      concepts: request.source.concepts,
+      steps: item?.steps,
+      finalAnswer: item?.finalAnswer
+    });
+    if (result.ok === false) return;
+    problems.push({
+      id: `${Date.now()}-${idx}`,
+      problem: result.data.description,
+      solution: result.data,
+      attempts: [],
+      revealed: false
     });
+  });
+  if (problems.length === 0) throw new Error("The solver did not return any usable practice problems.");
+  return problems;
+};
 
-    return JSON.parse(response.text || "{}");
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
+const transcribeWithGemini = async (ai: GoogleGenAI, model: string, image: string): Promise<string> => {
+  const response = await withRetry(() => ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        imagePart(image),
+        { text: "Transcribe the mathematics in this image exactly as written, as LaTeX without surrounding $ signs. Do not solve or correct it." }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { latex: { type: Type.STRING } },
+        required: ["latex"]
+      }
+    }
+  }), { classify: classifyGeminiError });
+  const parsed = JSON.parse(stripJsonWrapper(response.text || '{}'));
+  return typeof parsed.latex === 'string' ? parsed.latex.trim() : '';
+};
+
+const WORKSHEET_INSTRUCTION = `This image shows a worksheet or textbook page. List every distinct exercise on it, in reading order.
+For each exercise give:
+- label: its numbering exactly as printed (e.g. "3", "4b"); number them yourself if the page has none.
+- text: the full statement transcribed as LaTeX without surrounding $ signs. Include any instruction such as "Solve" or "Differentiate". Do not solve it.
+- box: its bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000.
+Treat sub-parts (a), (b), ... as separate exercises, repeating the shared instruction in each.`;
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+const toRegion = (box: unknown) => {
+  if (!Array.isArray(box) || box.length !== 4 || box.some(v => typeof v !== 'number')) return undefined;
+  const [ymin, xmin, ymax, xmax] = (box as number[]).map(v => Math.max(0, Math.min(1000, v)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+const enumerateWithGemini = async (ai: GoogleGenAI, model: string, image: string): Promise<WorksheetProblem[]> => {
+  const response = await withRetry(() => ai.models.generateContent({
+    model,
+    contents: { parts: [imagePart(image), { text: WORKSHEET_INSTRUCTION }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          problems: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                label: { type: Type.STRING },
+                text: { type: Type.STRING },
+                box: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+              },
+              required: ["label", "text"]
+            }
+          }
+        },
+        required: ["problems"]
+      }
+    }
+  }), { classify: classifyGeminiError });
+
+  const parsed = JSON.parse(stripJsonWrapper(response.text || '{}'));
+  return (Array.isArray(parsed.problems) ? parsed.problems : [])
+    .filter((item: any) => typeof item?.text === 'string' && item.text.trim())
+    .map((item: any, idx: number): WorksheetProblem => ({
+      id: `${Date.now()}-${idx}`,
+      label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : String(idx + 1),
+      text: item.text.trim(),
+      region: toRegion(item.box)
+    }));
+};
+
+export const createGeminiProvider = ({ apiKey, model }: GeminiProviderOptions): SolverProvider => {
+  if (!apiKey) {
+    const error = missingApiKeyError();
+    return {
+      name: `gemini:${model}`,
+      solve: async () => ({ ok: false, error }),
+      generatePractice: async () => { throw new Error(error.message); },
+      transcribeMath: async () => { throw new Error(error.message); },
+      enumerateProblems: async () => { throw new Error(error.message); }
+    };
   }
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `gemini:${model}`,
+    solve: (request, options) => solveWithGemini(ai, model, request, options),
+    generatePractice: (request) => generatePracticeWithGemini(ai, model, request),
+    transcribeMath: (image) => transcribeWithGemini(ai, model, image),
+    enumerateProblems: (image) => enumerateWithGemini(ai, model, image)
+  };
 };
@@ -0,0 +1,293 @@
+import { GraphPoint, GraphPointKind, GraphRegion, GraphSpec } from "../types";
+import { parseAnswerValues } from "./answerVerifier";
+import { collectVariables, evaluate, latexToPlain, tryParseMath } from "./mathExpression";
+
+export interface Viewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+}
+
+const POINT_KINDS: GraphPointKind[] = ['root', 'intercept', 'extremum', 'intersection', 'solution', 'other'];
+const DEFAULT_VIEWPORT: Viewport = { xMin: -10, xMax: 10, yMin: -10, yMax: 10 };
+// Zooming stops here, where floating point starts to show in the ticks.
+const MIN_SPAN = 1e-6;
+const MAX_SPAN = 1e6;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const finite = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Turns a curve such as `y = x^2 - 4`, `f(x) = \sin x` or `\frac{1}{x}` into a
+ * function of x. Returns null when it is not a function of x alone.
+ */
+export const compileGraphExpression = (expression: string): ((x: number) => number) | null => {
+  const sides = latexToPlain(expression).split('=');
+  // "x = 2" is a vertical line, not the constant function 2.
+  if (sides.length > 1 && sides[0].trim() === 'x') return null;
+  const node = tryParseMath(sides[sides.length - 1]);
+  if (!node || [...collectVariables(node)].some(name => name !== 'x')) return null;
+  return (x: number) => {
+    try {
+      return evaluate(node, { x });
+    } catch {
+      return NaN;
+    }
+  };
+};
+
+const readRange = (value: unknown): [number, number] | undefined => {
+  if (!Array.isArray(value) || value.length !== 2) return undefined;
+  const [a, b] = value.map(finite);
+  if (a === undefined || b === undefined || a === b) return undefined;
+  return a < b ? [a, b] : [b, a];
+};
+
+/**
+ * Checks the optional `graph` of a solution. Curves that cannot be plotted
+ * locally and malformed points or regions are dropped rather than failing the
+ * solution; a graph left with nothing to draw is removed.
+ */
+export const readGraphSpec = (value: unknown): { graph?: GraphSpec; repaired: boolean } => {
+  if (!isRecord(value)) return { repaired: true };
+  let repaired = false;
+
+  const functions: GraphSpec['functions'] = [];
+  for (const item of Array.isArray(value.functions) ? value.functions : []) {
+    const expression = typeof item === 'string' ? item : isRecord(item) && typeof item.expression === 'string' ? item.expression : '';
+    if (!expression || !compileGraphExpression(expression)) {
+      repaired = true;
+      continue;
+    }
+    if (typeof item === 'string') repaired = true;
+    const label = isRecord(item) && typeof item.label === 'string' && item.label.trim() ? item.label : undefined;
+    functions.push({ expression, ...(label ? { label } : {}) });
+  }
+
+  const firstCurve = functions.length > 0 ? compileGraphExpression(functions[0].expression) : null;
+  const points: GraphPoint[] = [];
+  for (const item of Array.isArray(value.points) ? value.points : []) {
+    const x = isRecord(item) ? finite(item.x) : undefined;
+    if (!isRecord(item) || x === undefined) {
+      repaired = true;
+      continue;
+    }
+    // A point given only by x sits on the first curve.
+    let y = finite(item.y);
+    if (y === undefined && firstCurve) {
+      y = finite(firstCurve(x));
+      repaired = true;
+    }
+    if (y === undefined) {
+      repaired = true;
+      continue;
+    }
+    const kind = POINT_KINDS.find(k => k === item.kind);
+    if (item.kind !== undefined && !kind) repaired = true;
+    points.push({
+      x,
+      y,
+      ...(typeof item.label === 'string' && item.label.trim() ? { label: item.label } : {}),
+      ...(kind ? { kind } : {}),
+      ...(item.isAnswer === true ? { isAnswer: true } : {})
+    });
+  }
+
+  const regions: GraphRegion[] = [];
+  for (const item of Array.isArray(value.regions) ? value.regions : []) {
+    if (!isRecord(item)) {
+      repaired = true;
+      continue;
+    }
+    const curve = (key: 'lower' | 'upper') => {
+      const text = item[key];
+      if (typeof text !== 'string' || !text.trim()) return undefined;
+      return compileGraphExpression(text) ? text : null;
+    };
+    const lower = curve('lower');
+    const upper = curve('upper');
+    if (lower === null || upper === null) {
+      repaired = true;
+      continue;
+    }
+    let from = finite(item.from);
+    let to = finite(item.to);
+    if (from !== undefined && to !== undefined && from > to) {
+      [from, to] = [to, from];
+      repaired = true;
+    }
+    regions.push({
+      ...(lower ? { lower } : {}),
+      ...(upper ? { upper } : {}),
+      ...(from !== undefined ? { from } : {}),
+      ...(to !== undefined ? { to } : {}),
+      ...(typeof item.label === 'string' && item.label.trim() ? { label: item.label } : {})
+    });
+  }
+
+  if (functions.length === 0 && points.length === 0) return { repaired: true };
+
+  const xRange = readRange(value.xRange);
+  const yRange = readRange(value.yRange);
+  if ((value.xRange !== undefined && !xRange) || (value.yRange !== undefined && !yRange)) repaired = true;
+
+  return {
+    graph: {
+      functions,
+      points,
+      regions,
+      ...(xRange ? { xRange } : {}),
+      ...(yRange ? { yRange } : {})
+    },
+    repaired
+  };
+};
+
+const padRange = (min: number, max: number, fraction = 0.25): [number, number] => {
+  if (min === max) return [min - 5, max + 5];
+  const pad = (max - min) * fraction;
+  return [min - pad, max + pad];
+};
+
+/**
+ * Starting window: the suggested ranges when given, otherwise one that frames
+ * the points of interest and the bulk of each curve. Curve values are trimmed
+ * at the 5th/95th percentile so an asymptote doesn't flatten everything else.
+ */
+export const initialViewport = (graph: GraphSpec): Viewport => {
+  const xs = [
+    ...graph.points.map(p => p.x),
+    ...graph.regions.flatMap(r => [r.from, r.to]).filter((x): x is number => x !== undefined)
+  ];
+  const [xMin, xMax] = graph.xRange
+    || (xs.length > 0 ? padRange(Math.min(...xs, 0), Math.max(...xs, 0)) : [DEFAULT_VIEWPORT.xMin, DEFAULT_VIEWPORT.xMax]);
+  if (graph.yRange) return { xMin, xMax, yMin: graph.yRange[0], yMax: graph.yRange[1] };
+
+  const ys = graph.points.map(p => p.y);
+  for (const fn of graph.functions) {
+    const f = compileGraphExpression(fn.expression);
+    if (!f) continue;
+    const values: number[] = [];
+    for (let i = 0; i <= 100; i++) {
+      const y = f(xMin + ((xMax - xMin) * i) / 100);
+      if (Number.isFinite(y)) values.push(y);
+    }
+    values.sort((a, b) => a - b);
+    if (values.length > 0) {
+      ys.push(values[Math.floor(values.length * 0.05)], values[Math.ceil(values.length * 0.95) - 1]);
+    }
+  }
+  if (ys.length === 0) return { xMin, xMax, yMin: DEFAULT_VIEWPORT.yMin, yMax: DEFAULT_VIEWPORT.yMax };
+  const [yMin, yMax] = padRange(Math.min(...ys, 0), Math.max(...ys, 0), 0.15);
+  return { xMin, xMax, yMin, yMax };
+};
+
+/**
+ * Samples `f` across the window, split into separate segments wherever it is
+ * undefined or jumps by more than the visible height (as at an asymptote).
+ */
+export const sampleFunction = (f: (x: number) => number, view: Viewport, samples = 400): PlotPoint[][] => {
+  const segments: PlotPoint[][] = [];
+  const maxJump = view.yMax - view.yMin;
+  let current: PlotPoint[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const x = view.xMin + ((view.xMax - view.xMin) * i) / samples;
+    const y = f(x);
+    const prev = current[current.length - 1];
+    if (!Number.isFinite(y) || (prev && Math.abs(y - prev.y) > maxJump)) {
+      if (current.length > 1) segments.push(current);
+      current = Number.isFinite(y) ? [{ x, y }] : [];
+      continue;
+    }
+    current.push({ x, y });
+  }
+  if (current.length > 1) segments.push(current);
+  return segments;
+};
+
+/**
+ * Outline of a shaded region within the window: along the upper boundary
+ * left to right, then back along the lower one.
+ */
+export const regionOutline = (region: GraphRegion, view: Viewport, samples = 200): PlotPoint[] => {
+  const from = Math.max(region.from ?? view.xMin, view.xMin);
+  const to = Math.min(region.to ?? view.xMax, view.xMax);
+  if (from >= to) return [];
+  const clamp = (y: number, fallback: number) => Number.isFinite(y) ? Math.min(Math.max(y, view.yMin), view.yMax) : fallback;
+  const upper = region.upper ? compileGraphExpression(region.upper) : null;
+  const lower = region.lower ? compileGraphExpression(region.lower) : null;
+  const top: PlotPoint[] = [];
+  const bottom: PlotPoint[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const x = from + ((to - from) * i) / samples;
+    const yTop = upper ? clamp(upper(x), view.yMin) : view.yMax;
+    const yBottom = lower ? clamp(lower(x), view.yMax) : view.yMin;
+    top.push({ x, y: yTop });
+    bottom.push({ x, y: Math.min(yBottom, yTop) });
+  }
+  return [...top, ...bottom.reverse()];
+};
+
+// Round tick positions (1, 2 or 5 times a power of ten) covering [min, max].
+export const niceTicks = (min: number, max: number, target = 8): number[] => {
+  const rough = (max - min) / target;
+  if (!(rough > 0)) return [];
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= rough) || 10 * power;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    ticks.push(Math.abs(value) < step * 1e-9 ? 0 : Number(value.toPrecision(12)));
+  }
+  return ticks;
+};
+
+// Zooms by `factor` (< 1 zooms in) keeping the point (cx, cy) fixed on screen.
+export const zoomViewport = (view: Viewport, factor: number, cx = (view.xMin + view.xMax) / 2, cy = (view.yMin + view.yMax) / 2): Viewport => {
+  const span = (view.xMax - view.xMin) * factor;
+  if (span < MIN_SPAN || span > MAX_SPAN) return view;
+  return {
+    xMin: cx - (cx - view.xMin) * factor,
+    xMax: cx + (view.xMax - cx) * factor,
+    yMin: cy - (cy - view.yMin) * factor,
+    yMax: cy + (view.yMax - cy) * factor
+  };
+};
+
+export const panViewport = (view: Viewport, dx: number, dy: number): Viewport => ({
+  xMin: view.xMin + dx,
+  xMax: view.xMax + dx,
+  yMin: view.yMin + dy,
+  yMax: view.yMax + dy
+});
+
+const ANSWER_KINDS: (GraphPointKind | undefined)[] = ['solution', 'root', 'intersection', 'extremum'];
+
+/**
+ * Indices of the points the final answer refers to: those the solver flagged,
+ * or else those whose x (or y, for an answer in y) matches a value parsed from
+ * the answer, preferring solutions, roots and the like over other points.
+ */
+export const answerPointIndices = (graph: GraphSpec, finalAnswer: string): number[] => {
+  const flagged = graph.points.flatMap((p, idx) => p.isAnswer ? [idx] : []);
+  if (flagged.length > 0) return flagged;
+  const values = parseAnswerValues(finalAnswer);
+  if (!values) return [];
+  const tolerance = (value: number) => Math.max(1e-6, Math.abs(value) * 1e-3);
+  const matches = graph.points.flatMap((point, idx) => values.some(({ name, value }) => {
+    const coordinate = name === 'y' ? point.y : point.x;
+    return Math.abs(coordinate - value) <= tolerance(value);
+  }) ? [idx] : []);
+  const preferred = matches.filter(idx => ANSWER_KINDS.includes(graph.points[idx].kind));
+  return preferred.length > 0 ? preferred : matches;
+};
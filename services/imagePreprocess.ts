@@ -0,0 +1,156 @@
+import { ImageRegion } from "../types";
+
+// Longest edge sent to the solver; more pixels cost upload time without helping it read.
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+export type ImageSource = ImageBitmap | HTMLImageElement;
+
+// A region of the (already oriented) source image, in source pixels.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  crop?: CropRect | null;
+  highContrast?: boolean;
+  maxDimension?: number;
+  mimeType?: 'image/jpeg' | 'image/png';
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export const imageSize = (source: ImageSource) => ({
+  width: 'naturalWidth' in source ? source.naturalWidth : source.width,
+  height: 'naturalHeight' in source ? source.naturalHeight : source.height
+});
+
+/**
+ * Decodes an uploaded file with its EXIF orientation applied, so phone photos
+ * taken sideways come out upright. Falls back to an <img>, which browsers
+ * also orient by default, where createImageBitmap is unavailable.
+ */
+export const loadOrientedImage = async (file: Blob): Promise<ImageSource> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to the <img> decoder.
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Grayscale with the darkest and brightest 2% clipped and the rest stretched
+ * across the full range, which lifts pencil on grey paper towards black on white.
+ */
+const applyHighContrast = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    histogram[gray[p]]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen >= gray.length * fraction) return v;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = Math.max(low + 1, percentile(0.98));
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const v = ((gray[p] - low) / (high - low)) * 255;
+    data[i] = data[i + 1] = data[i + 2] = v;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Crops, downscales and optionally cleans up an image for upload. JPEG is the
+ * default since photos compress far better than as PNG.
+ */
+export const preprocessImage = (
+  source: ImageSource,
+  { crop = null, highContrast = false, maxDimension = MAX_IMAGE_DIMENSION, mimeType = 'image/jpeg' }: PreprocessOptions = {}
+): PreparedImage => {
+  const full = imageSize(source);
+  const region = crop || { x: 0, y: 0, width: full.width, height: full.height };
+  const scale = Math.min(1, maxDimension / Math.max(region.width, region.height));
+  const width = Math.max(1, Math.round(region.width * scale));
+  const height = Math.max(1, Math.round(region.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no transparency; make transparent PNG areas white rather than black.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  if (highContrast) applyHighContrast(ctx, width, height);
+
+  const dataUrl = canvas.toDataURL(mimeType, JPEG_QUALITY);
+  return { dataUrl, mimeType: dataUrlMimeType(dataUrl) || mimeType, width, height, bytes: dataUrlByteSize(dataUrl) };
+};
+
+export const dataUrlMimeType = (dataUrl: string): string | null =>
+  /^data:([^;,]+)[;,]/.exec(dataUrl)?.[1] || null;
+
+// Size of the decoded payload, not of the base64 text.
+export const dataUrlByteSize = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B`
+    : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB`
+      : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Extra context kept around a detected region, as a fraction of the image.
+const REGION_MARGIN = 0.02;
+
+/**
+ * Cuts one region (in 0..1 fractions) out of an image data URL, keeping its format.
+ */
+export const cropImageRegion = async (dataUrl: string, region: ImageRegion): Promise<string> => {
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+  const { width, height } = imageSize(img);
+  const left = Math.max(0, region.x - REGION_MARGIN);
+  const top = Math.max(0, region.y - REGION_MARGIN);
+  const right = Math.min(1, region.x + region.width + REGION_MARGIN);
+  const bottom = Math.min(1, region.y + region.height + REGION_MARGIN);
+  return preprocessImage(img, {
+    crop: { x: left * width, y: top * height, width: (right - left) * width, height: (bottom - top) * height },
+    mimeType: dataUrlMimeType(dataUrl) === 'image/png' ? 'image/png' : 'image/jpeg'
+  }).dataUrl;
+};
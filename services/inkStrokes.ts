@@ -0,0 +1,113 @@
+import { InkPoint, InkStroke } from "../types";
+
+export interface InkBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Mice report 0.5, so a mouse stroke is drawn at exactly its nominal width.
+const widthAt = (stroke: InkStroke, pressure: number) => stroke.width * (0.5 + pressure);
+
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: InkStroke) => {
+  const { points } = stroke;
+  if (points.length === 0) return;
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (points.length === 1) {
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, widthAt(stroke, points[0].pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  // Segment by segment, so the width can follow the pressure along the stroke.
+  for (let i = 1; i < points.length; i++) {
+    drawSegment(ctx, stroke, points[i - 1], points[i]);
+  }
+};
+
+export const drawSegment = (ctx: CanvasRenderingContext2D, stroke: InkStroke, from: InkPoint, to: InkPoint) => {
+  ctx.strokeStyle = stroke.color;
+  ctx.lineCap = 'round';
+  ctx.lineWidth = widthAt(stroke, (from.pressure + to.pressure) / 2);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+};
+
+/**
+ * Paints a white background and every stroke. Coordinates are in CSS pixels;
+ * `scale` maps them onto the device pixels of the backing store.
+ */
+export const renderStrokes = (
+  ctx: CanvasRenderingContext2D,
+  strokes: InkStroke[],
+  width: number,
+  height: number,
+  scale: number,
+  offset = { x: 0, y: 0 }
+) => {
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(-offset.x, -offset.y);
+  strokes.forEach(stroke => drawStroke(ctx, stroke));
+};
+
+const distanceToSegment = (px: number, py: number, a: InkPoint, b: InkPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - a.x) * dx + (py - a.y) * dy) / lengthSq));
+  return Math.hypot(px - (a.x + t * dx), py - (a.y + t * dy));
+};
+
+// Whether a point (e.g. the eraser) touches a stroke, allowing for the stroke's own width.
+export const strokeHit = (stroke: InkStroke, x: number, y: number, radius: number) => {
+  const { points } = stroke;
+  const reach = radius + stroke.width;
+  if (points.length === 1) return Math.hypot(x - points[0].x, y - points[0].y) <= reach;
+  for (let i = 1; i < points.length; i++) {
+    if (distanceToSegment(x, y, points[i - 1], points[i]) <= reach) return true;
+  }
+  return false;
+};
+
+export const strokesBounds = (strokes: InkStroke[]): InkBounds | null => {
+  let bounds: InkBounds | null = null;
+  strokes.forEach(stroke => stroke.points.forEach(({ x, y }) => {
+    const pad = stroke.width;
+    bounds = bounds
+      ? {
+          minX: Math.min(bounds.minX, x - pad),
+          minY: Math.min(bounds.minY, y - pad),
+          maxX: Math.max(bounds.maxX, x + pad),
+          maxY: Math.max(bounds.maxY, y + pad)
+        }
+      : { minX: x - pad, minY: y - pad, maxX: x + pad, maxY: y + pad };
+  }));
+  return bounds;
+};
+
+/**
+ * Renders the strokes, cropped to what was actually drawn plus a margin, into
+ * a PNG data URL. At least 2x scale keeps thin pen strokes legible to the solver.
+ */
+export const exportStrokesPng = (strokes: InkStroke[], { padding = 24, scale = 2 } = {}): string | null => {
+  const bounds = strokesBounds(strokes);
+  if (!bounds) return null;
+  const width = Math.ceil(bounds.maxX - bounds.minX + padding * 2);
+  const height = Math.ceil(bounds.maxY - bounds.minY + padding * 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  renderStrokes(ctx, strokes, width, height, scale, { x: bounds.minX - padding, y: bounds.minY - padding });
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,504 @@
+/**
+ * A small numeric math engine: converts LaTeX or plain-text math into an
+ * expression tree that can be evaluated, compared and integrated locally.
+ * It deliberately covers school/early-university notation only.
+ */
+
+export type MathNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: MathNode }
+  | { type: 'op'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; fn: string; arg: MathNode };
+
+export class MathParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MathParseError';
+  }
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  sec: x => 1 / Math.cos(x),
+  csc: x => 1 / Math.sin(x),
+  cot: x => 1 / Math.tan(x),
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  Infinity: Infinity
+};
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'rho', 'sigma', 'tau', 'phi', 'chi', 'psi', 'omega'
+];
+
+// Longest names first so that "sinh" wins over "sin" and "theta" over "eta".
+const WORDS = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS), ...GREEK]
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Reads a `{...}` group (or a single character) starting at `start`.
+ * Returns the group's content and the index just after it.
+ */
+const readGroup = (text: string, start: number): { content: string; end: number } => {
+  let i = start;
+  while (text[i] === ' ') i++;
+  if (text[i] !== '{') {
+    if (text[i] === '\\') {
+      const match = text.slice(i).match(/^\\[a-zA-Z]+/);
+      if (match) return { content: match[0], end: i + match[0].length };
+    }
+    return { content: text[i] ?? '', end: i + 1 };
+  }
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    if (text[j] === '{') depth++;
+    else if (text[j] === '}') {
+      depth--;
+      if (depth === 0) return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  throw new MathParseError("Unbalanced braces");
+};
+
+const replaceCommand = (
+  text: string,
+  command: RegExp,
+  render: (text: string, afterCommand: number) => { replacement: string; end: number }
+): string => {
+  let result = text;
+  let match: RegExpExecArray | null;
+  command.lastIndex = 0;
+  while ((match = command.exec(result))) {
+    const { replacement, end } = render(result, match.index + match[0].length);
+    result = result.slice(0, match.index) + replacement + result.slice(end);
+    command.lastIndex = 0;
+  }
+  return result;
+};
+
+/**
+ * Rewrites LaTeX notation into the plain syntax understood by `parseMath`.
+ * Plain-text input passes through mostly unchanged.
+ */
+export const latexToPlain = (tex: string): string => {
+  let s = tex
+    .replace(/\$/g, '')
+    .replace(/\\(displaystyle|left|right|bigl|bigr|Bigl|Bigr|big|Big)\b/g, '')
+    .replace(/\\[,;:! ]|\\quad|\\qquad|~/g, ' ')
+    .replace(/\\text\{([^}]*)\}|\\mathrm\{([^}]*)\}|\\operatorname\{([^}]*)\}/g, (_m, a, b, c) => ` ${a ?? b ?? c} `)
+    .replace(/\\(cdot|times|ast)/g, '*')
+    .replace(/\\div/g, '/')
+    .replace(/\\infty/g, 'Infinity')
+    .replace(/\\[lr]vert|\\mid/g, '|')
+    .replace(/−/g, '-')
+    .replace(/×|·/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/π/g, 'pi');
+
+  s = replaceCommand(s, /\\[dt]?frac/g, (text, at) => {
+    const num = readGroup(text, at);
+    const den = readGroup(text, num.end);
+    return { replacement: `((${num.content})/(${den.content}))`, end: den.end };
+  });
+
+  s = replaceCommand(s, /\\sqrt/g, (text, at) => {
+    let i = at;
+    let index: string | null = null;
+    if (text[i] === '[') {
+      const close = text.indexOf(']', i);
+      index = text.slice(i + 1, close);
+      i = close + 1;
+    }
+    const body = readGroup(text, i);
+    return {
+      replacement: index ? `((${body.content})^(1/(${index})))` : `sqrt(${body.content})`,
+      end: body.end
+    };
+  });
+
+  s = s
+    .replace(/_\{([A-Za-z0-9]+)\}/g, '_$1')
+    .replace(/\\([a-zA-Z]+)/g, '$1')
+    .replace(/[{[]/g, '(')
+    .replace(/[}\]]/g, ')');
+
+  return s;
+};
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'sym'; value: string };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const num = text.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+    if (num && !(num[2] && /[a-zA-Z]/.test(text[i + num[0].length] ?? ''))) {
+      tokens.push({ kind: 'num', value: parseFloat(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    if (/[a-zA-Z]/.test(ch)) {
+      const rest = text.slice(i);
+      const word = WORDS.find(w => rest.startsWith(w));
+      if (word) {
+        tokens.push({ kind: 'name', value: word });
+        i += word.length;
+        continue;
+      }
+      // Any other letter is a single-letter variable, optionally subscripted (x_1).
+      const sub = rest.match(/^[a-zA-Z](_[A-Za-z0-9]+)?/)!;
+      tokens.push({ kind: 'name', value: sub[0] });
+      i += sub[0].length;
+      continue;
+    }
+    if (ch === '*' && text[i + 1] === '*') {
+      tokens.push({ kind: 'sym', value: '^' });
+      i += 2;
+      continue;
+    }
+    if ('+-*/^()|'.includes(ch)) {
+      tokens.push({ kind: 'sym', value: ch });
+      i++;
+      continue;
+    }
+    throw new MathParseError(`Unexpected character "${ch}"`);
+  }
+  return tokens;
+};
+
+class Parser {
+  private pos = 0;
+  private absDepth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode {
+    const node = this.expression();
+    if (this.pos < this.tokens.length) throw new MathParseError("Unexpected trailing input");
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isSym(value: string) {
+    const t = this.peek();
+    return t?.kind === 'sym' && t.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isSym(value)) throw new MathParseError(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  private expression(): MathNode {
+    let node = this.term();
+    while (this.isSym('+') || this.isSym('-')) {
+      const op = (this.tokens[this.pos++] as { value: '+' | '-' }).value;
+      node = { type: 'op', op, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  private startsOperand(): boolean {
+    const t = this.peek();
+    if (!t) return false;
+    if (t.kind !== 'sym') return true;
+    // A "|" only opens a new absolute value when we are not inside one already.
+    return t.value === '(' || (t.value === '|' && this.absDepth === 0);
+  }
+
+  private term(): MathNode {
+    let node = this.unary();
+    for (;;) {
+      if (this.isSym('*') || this.isSym('/')) {
+        const op = (this.tokens[this.pos++] as { value: '*' | '/' }).value;
+        node = { type: 'op', op, left: node, right: this.unary() };
+      } else if (this.startsOperand()) {
+        node = { type: 'op', op: '*', left: node, right: this.power() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private unary(): MathNode {
+    if (this.isSym('-')) {
+      this.pos++;
+      return { type: 'neg', arg: this.unary() };
+    }
+    if (this.isSym('+')) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): MathNode {
+    const base = this.primary();
+    if (this.isSym('^')) {
+      this.pos++;
+      return { type: 'op', op: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): MathNode {
+    const t = this.peek();
+    if (!t) throw new MathParseError("Unexpected end of expression");
+    this.pos++;
+
+    if (t.kind === 'num') return { type: 'num', value: t.value };
+
+    if (t.kind === 'name') {
+      if (FUNCTIONS[t.value]) {
+        // sin^2 x means (sin x)^2
+        let exponent: MathNode | null = null;
+        if (this.isSym('^')) {
+          this.pos++;
+          exponent = this.primary();
+        }
+        const arg = this.isSym('(') ? this.primary() : this.power();
+        const call: MathNode = { type: 'call', fn: t.value, arg };
+        return exponent ? { type: 'op', op: '^', left: call, right: exponent } : call;
+      }
+      if (t.value in CONSTANTS) return { type: 'num', value: CONSTANTS[t.value] };
+      return { type: 'var', name: t.value };
+    }
+
+    if (t.value === '(') {
+      const inner = this.expression();
+      this.expect(')');
+      return inner;
+    }
+    if (t.value === '|') {
+      this.absDepth++;
+      const inner = this.expression();
+      this.absDepth--;
+      this.expect('|');
+      return { type: 'call', fn: 'abs', arg: inner };
+    }
+    throw new MathParseError(`Unexpected "${t.value}"`);
+  }
+}
+
+/**
+ * Parses LaTeX or plain-text math (e.g. `\frac{1}{2}x^2`, `2x + sin(x)`).
+ */
+export const parseMath = (text: string): MathNode => {
+  const plain = latexToPlain(text).trim();
+  if (!plain) throw new MathParseError("Empty expression");
+  return new Parser(tokenize(plain)).parse();
+};
+
+export const tryParseMath = (text: string): MathNode | null => {
+  try {
+    return parseMath(text);
+  } catch {
+    return null;
+  }
+};
+
+export const evaluate = (node: MathNode, scope: Record<string, number> = {}): number => {
+  switch (node.type) {
+    case 'num':
+      return node.value;
+    case 'var':
+      if (!(node.name in scope)) throw new MathParseError(`Unknown variable "${node.name}"`);
+      return scope[node.name];
+    case 'neg':
+      return -evaluate(node.arg, scope);
+    case 'call':
+      return FUNCTIONS[node.fn](evaluate(node.arg, scope));
+    case 'op': {
+      const a = evaluate(node.left, scope);
+      const b = evaluate(node.right, scope);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return Math.pow(a, b);
+      }
+    }
+  }
+};
+
+export const collectVariables = (node: MathNode, into = new Set<string>()): Set<string> => {
+  switch (node.type) {
+    case 'var':
+      into.add(node.name);
+      break;
+    case 'neg':
+    case 'call':
+      collectVariables(node.arg, into);
+      break;
+    case 'op':
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+  }
+  return into;
+};
+
+export const containsCall = (node: MathNode): boolean => {
+  switch (node.type) {
+    case 'call': return true;
+    case 'neg': return containsCall(node.arg);
+    case 'op': return containsCall(node.left) || containsCall(node.right);
+    default: return false;
+  }
+};
+
+export const nearlyEqual = (a: number, b: number, tolerance = 1e-6) =>
+  Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+
+// A fixed-seed generator keeps sample points, and therefore verdicts, reproducible.
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+export const samplePoints = (variables: string[], count: number, seed = 42): Record<string, number>[] => {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () =>
+    Object.fromEntries(variables.map(v => [v, Math.round((random() * 6 - 3) * 1000) / 1000 + 0.1]))
+  );
+};
+
+/**
+ * Compares two expressions by evaluating them at random points.
+ * Returns null when too few points fall in both domains to decide.
+ */
+export const expressionsEquivalent = (
+  a: MathNode,
+  b: MathNode,
+  { samples = 12, tolerance = 1e-6 }: { samples?: number; tolerance?: number } = {}
+): boolean | null => {
+  const variables = [...collectVariables(a, collectVariables(b))];
+  let checked = 0;
+  for (const point of samplePoints(variables, samples * 2)) {
+    let va: number;
+    let vb: number;
+    try {
+      va = evaluate(a, point);
+      vb = evaluate(b, point);
+    } catch {
+      return null;
+    }
+    if (!Number.isFinite(va) || !Number.isFinite(vb)) continue;
+    if (!nearlyEqual(va, vb, tolerance)) return false;
+    if (++checked >= samples) break;
+  }
+  return checked >= Math.min(3, samples) ? true : null;
+};
+
+export const derivativeAt = (node: MathNode, variable: string, at: Record<string, number>): number => {
+  const x = at[variable];
+  const h = 1e-5 * Math.max(1, Math.abs(x));
+  const f = (v: number) => evaluate(node, { ...at, [variable]: v });
+  return (f(x + h) - f(x - h)) / (2 * h);
+};
+
+/**
+ * Adaptive Simpson quadrature of `node` over [a, b].
+ */
+export const integrate = (node: MathNode, variable: string, a: number, b: number, tolerance = 1e-9): number => {
+  const f = (x: number) => evaluate(node, { [variable]: x });
+  const simpson = (l: number, r: number, fl: number, fm: number, fr: number) => ((r - l) / 6) * (fl + 4 * fm + fr);
+
+  const recurse = (l: number, r: number, fl: number, fm: number, fr: number, whole: number, eps: number, depth: number): number => {
+    const m = (l + r) / 2;
+    const lm = (l + m) / 2;
+    const rm = (m + r) / 2;
+    const flm = f(lm);
+    const frm = f(rm);
+    const left = simpson(l, m, fl, flm, fm);
+    const right = simpson(m, r, fm, frm, fr);
+    if (depth <= 0 || Math.abs(left + right - whole) <= 15 * eps) {
+      return left + right + (left + right - whole) / 15;
+    }
+    return recurse(l, m, fl, flm, fm, left, eps / 2, depth - 1) + recurse(m, r, fm, frm, fr, right, eps / 2, depth - 1);
+  };
+
+  const fa = f(a);
+  const fb = f(b);
+  const fm = f((a + b) / 2);
+  return recurse(a, b, fa, fm, fb, simpson(a, b, fa, fm, fb), tolerance, 40);
+};
+
+const ROOT_SCAN_RANGE = 100;
+const ROOT_SCAN_STEP = 0.01;
+
+/**
+ * Finds the real roots of `f` in [-100, 100] by scanning for sign changes
+ * (refined by bisection) and for touching roots (refined by ternary search).
+ */
+export const findRealRoots = (f: (x: number) => number): number[] => {
+  const roots: number[] = [];
+  const addRoot = (x: number) => {
+    if (Math.abs(f(x)) < 1e-7 && !roots.some(r => Math.abs(r - x) < 1e-4)) roots.push(x);
+  };
+
+  let prevX = -ROOT_SCAN_RANGE;
+  let prev = f(prevX);
+  let prevPrev = NaN;
+  for (let x = prevX + ROOT_SCAN_STEP; x <= ROOT_SCAN_RANGE; x += ROOT_SCAN_STEP) {
+    const cur = f(x);
+    if (Number.isFinite(cur) && Number.isFinite(prev)) {
+      if (cur === 0) addRoot(x);
+      else if (Math.sign(cur) !== Math.sign(prev)) {
+        let lo = prevX;
+        let hi = x;
+        for (let i = 0; i < 60; i++) {
+          const mid = (lo + hi) / 2;
+          if (Math.sign(f(mid)) === Math.sign(f(lo))) lo = mid;
+          else hi = mid;
+        }
+        addRoot((lo + hi) / 2);
+      } else if (Math.abs(prev) < Math.abs(prevPrev) && Math.abs(prev) < Math.abs(cur)) {
+        // A touching root (double root) never changes sign; refine the local minimum of |f|.
+        let lo = prevX - ROOT_SCAN_STEP;
+        let hi = x;
+        for (let i = 0; i < 80; i++) {
+          const m1 = lo + (hi - lo) / 3;
+          const m2 = hi - (hi - lo) / 3;
+          if (Math.abs(f(m1)) < Math.abs(f(m2))) hi = m2;
+          else lo = m1;
+        }
+        addRoot((lo + hi) / 2);
+      }
+    }
+    prevPrev = prev;
+    prev = cur;
+    prevX = x;
+  }
+  return roots;
+};
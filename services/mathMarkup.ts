@@ -0,0 +1,209 @@
+/**
+ * Splits solver text into prose and math, and (optionally) reads the light
+ * Markdown the model uses in explanations: paragraphs, bullet and numbered
+ * lists, **bold**, *italic* and `code`. Rendering is left to the caller.
+ */
+
+export interface MathSegment {
+  math: boolean;
+  display: boolean;
+  value: string;
+}
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'math'; value: string; display: boolean }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'em'; children: InlineNode[] };
+
+export type MarkupBlock =
+  | { type: 'paragraph'; content: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+// Environments KaTeX renders in display mode even without surrounding $$.
+const DISPLAY_ENVIRONMENTS = new Set([
+  'equation', 'equation*', 'align', 'align*', 'aligned', 'gather', 'gather*', 'gathered',
+  'alignat', 'alignat*', 'cases', 'matrix', 'pmatrix', 'bmatrix', 'vmatrix', 'Vmatrix', 'array'
+]);
+
+// Index of `closer` at or after `from`, skipping backslash escapes; -1 if absent.
+const findCloser = (text: string, closer: string, from: number) => {
+  for (let i = from; i < text.length; i++) {
+    if (text.startsWith(closer, i)) return i;
+    if (text[i] === '\\' && closer !== '\\]' && closer !== '\\)') i++;
+  }
+  return -1;
+};
+
+/**
+ * Closing `$` of inline math opened at `open`, following the usual Markdown
+ * rule that keeps currency readable: the math may not start or end with a space,
+ * and the closing `$` may not be followed by a digit ("costs $5 or $10").
+ */
+const findInlineClose = (text: string, open: number) => {
+  if (!text[open + 1] || /\s/.test(text[open + 1])) return -1;
+  for (let i = open + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '\n' && text[i + 1] === '\n') return -1;
+    if (text[i] === '$' && !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] || '')) return i;
+  }
+  return -1;
+};
+
+/**
+ * Splits text on $$...$$, \[...\] and display environments (display) and on
+ * $...$ and \(...\) (inline). `\$` is a literal dollar sign; unmatched
+ * delimiters are kept as text.
+ */
+export const tokenizeMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = '';
+  const pushMath = (value: string, display: boolean) => {
+    if (buffer) segments.push({ math: false, display: false, value: buffer });
+    buffer = '';
+    segments.push({ math: true, display, value: value.trim() });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (ch === '\\') {
+      if (next === '$') {
+        buffer += '$';
+        i += 2;
+        continue;
+      }
+      if (next === '[' || next === '(') {
+        const closer = next === '[' ? '\\]' : '\\)';
+        const close = findCloser(text, closer, i + 2);
+        if (close !== -1) {
+          pushMath(text.slice(i + 2, close), next === '[');
+          i = close + 2;
+          continue;
+        }
+      }
+      const environment = /^\\begin\{([a-zA-Z]+\*?)\}/.exec(text.slice(i))?.[1];
+      if (environment && DISPLAY_ENVIRONMENTS.has(environment)) {
+        const end = `\\end{${environment}}`;
+        const close = text.indexOf(end, i);
+        if (close !== -1) {
+          pushMath(text.slice(i, close + end.length), true);
+          i = close + end.length;
+          continue;
+        }
+      }
+      buffer += ch + (next ?? '');
+      i += 2;
+      continue;
+    }
+
+    if (ch === '$' && next === '$') {
+      const close = findCloser(text, '$$', i + 2);
+      if (close !== -1 && text.slice(i + 2, close).trim()) {
+        pushMath(text.slice(i + 2, close), true);
+        i = close + 2;
+        continue;
+      }
+      buffer += '$$';
+      i += 2;
+      continue;
+    }
+
+    if (ch === '$') {
+      const close = findInlineClose(text, i);
+      if (close !== -1) {
+        pushMath(text.slice(i + 1, close), false);
+        i = close + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+  if (buffer) segments.push({ math: false, display: false, value: buffer });
+  return segments;
+};
+
+// Bold, italic and code within one line of prose. Math has been cut out already.
+const parseEmphasis = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const pattern = /\*\*(.+?)\*\*|__(.+?)__|(?<![\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])|`([^`]+)`/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) nodes.push({ type: 'text', value: text.slice(last, match.index) });
+    if (match[4] !== undefined) nodes.push({ type: 'code', value: match[4] });
+    else if (match[3] !== undefined) nodes.push({ type: 'em', children: parseEmphasis(match[3]) });
+    else nodes.push({ type: 'strong', children: parseEmphasis(match[1] ?? match[2]) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) nodes.push({ type: 'text', value: text.slice(last) });
+  return nodes;
+};
+
+// Math is swapped for placeholders so that line and emphasis parsing never looks inside it.
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+const restoreMath = (nodes: InlineNode[], math: MathSegment[]): InlineNode[] =>
+  nodes.flatMap((node): InlineNode[] => {
+    if (node.type === 'strong' || node.type === 'em') return [{ ...node, children: restoreMath(node.children, math) }];
+    if (node.type !== 'text') return [node];
+    return node.value.split(PLACEHOLDER).flatMap((part, idx): InlineNode[] => {
+      if (idx % 2 === 1) {
+        const segment = math[Number(part)];
+        return [{ type: 'math', value: segment.value, display: segment.display }];
+      }
+      return part ? [{ type: 'text', value: part }] : [];
+    });
+  });
+
+const LIST_ITEM = /^\s*(?:([-*•])|(\d+)[.)])\s+(.*)$/;
+
+/**
+ * Parses text into blocks of inline content. Without `markdown` the whole text
+ * is one paragraph of prose and math, with `*` and line breaks left as they are.
+ */
+export const parseMathMarkup = (text: string, { markdown = false }: { markdown?: boolean } = {}): MarkupBlock[] => {
+  const segments = tokenizeMath(text);
+  if (!markdown) {
+    return [{
+      type: 'paragraph',
+      content: segments.map((s): InlineNode => s.math ? { type: 'math', value: s.value, display: s.display } : { type: 'text', value: s.value })
+    }];
+  }
+
+  const math = segments.filter(s => s.math);
+  let mathIndex = 0;
+  // A literal NUL in the text can't be mistaken for a placeholder.
+  const masked = segments.map(s => s.math ? `\u0000${mathIndex++}\u0000` : s.value.replace(/\u0000/g, '')).join('');
+  const inline = (line: string) => restoreMath(parseEmphasis(line), math);
+
+  const blocks: MarkupBlock[] = [];
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', content: inline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (const line of masked.split('\n')) {
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(inline(item[3]));
+      else blocks.push({ type: 'list', ordered, items: [inline(item[3])] });
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+};
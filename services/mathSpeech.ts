@@ -0,0 +1,313 @@
+import { ReadAloudSection, SolveResponse } from "../types";
+import { tokenizeMath } from "./mathMarkup";
+
+/**
+ * Turns LaTeX into words a speech synthesizer can read, so `\frac{1}{2}x^2`
+ * is read as "1 over 2 x squared" rather than letter by letter. The phrasing
+ * is English; other voices read the numbers and letters in their own language.
+ */
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega'
+];
+
+const WORDS: Record<string, string> = {
+  ...Object.fromEntries(GREEK.map(name => [`\\${name}`, name.replace(/^var/, '')])),
+  ...Object.fromEntries(['Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Phi', 'Psi', 'Omega'].map(name => [`\\${name}`, `capital ${name.toLowerCase()}`])),
+  '=': 'equals',
+  '+': 'plus',
+  '-': 'minus',
+  '<': 'is less than',
+  '>': 'is greater than',
+  '/': 'divided by',
+  '!': 'factorial',
+  "'": 'prime',
+  '(': 'open bracket',
+  ')': 'close bracket',
+  '[': 'open bracket',
+  ']': 'close bracket',
+  ',': ',',
+  ';': ',',
+  ':': ',',
+  '\\pm': 'plus or minus',
+  '\\mp': 'minus or plus',
+  '\\times': 'times',
+  '\\cdot': 'times',
+  '\\div': 'divided by',
+  '\\le': 'is less than or equal to',
+  '\\leq': 'is less than or equal to',
+  '\\ge': 'is greater than or equal to',
+  '\\geq': 'is greater than or equal to',
+  '\\ne': 'is not equal to',
+  '\\neq': 'is not equal to',
+  '\\approx': 'is approximately',
+  '\\equiv': 'is equivalent to',
+  '\\propto': 'is proportional to',
+  '\\to': 'approaches',
+  '\\rightarrow': 'approaches',
+  '\\implies': ', which implies',
+  '\\Rightarrow': ', which implies',
+  '\\iff': 'if and only if',
+  '\\Leftrightarrow': 'if and only if',
+  '\\therefore': 'therefore',
+  '\\infty': 'infinity',
+  '\\in': 'in',
+  '\\notin': 'not in',
+  '\\subset': 'is a subset of',
+  '\\subseteq': 'is a subset of',
+  '\\cup': 'union',
+  '\\cap': 'intersect',
+  '\\emptyset': 'the empty set',
+  '\\forall': 'for all',
+  '\\exists': 'there exists',
+  '\\angle': 'angle',
+  '\\triangle': 'triangle',
+  '\\perp': 'is perpendicular to',
+  '\\parallel': 'is parallel to',
+  '\\circ': 'degrees',
+  '\\degree': 'degrees',
+  '\\partial': 'partial',
+  '\\nabla': 'del',
+  '\\ldots': 'and so on',
+  '\\cdots': 'and so on',
+  '\\dots': 'and so on',
+  '\\%': 'percent',
+  '\\$': 'dollars'
+};
+
+const FUNCTIONS: Record<string, string> = {
+  '\\sin': 'sine', '\\cos': 'cosine', '\\tan': 'tangent', '\\sec': 'secant', '\\csc': 'cosecant', '\\cot': 'cotangent',
+  '\\arcsin': 'arc sine', '\\arccos': 'arc cosine', '\\arctan': 'arc tangent',
+  '\\sinh': 'hyperbolic sine', '\\cosh': 'hyperbolic cosine', '\\tanh': 'hyperbolic tangent',
+  '\\ln': 'the natural log', '\\log': 'log', '\\exp': 'the exponential', '\\det': 'the determinant',
+  '\\max': 'the maximum', '\\min': 'the minimum', '\\gcd': 'the greatest common divisor'
+};
+
+// Operators whose limits are read as "from ... to ...".
+const BIG_OPERATORS: Record<string, string> = {
+  '\\int': 'the integral', '\\iint': 'the double integral', '\\iiint': 'the triple integral', '\\oint': 'the contour integral',
+  '\\sum': 'the sum', '\\prod': 'the product', '\\bigcup': 'the union', '\\bigcap': 'the intersection'
+};
+
+const FRACTIONS = ['\\frac', '\\dfrac', '\\tfrac', '\\cfrac'];
+const TEXT_COMMANDS = ['\\text', '\\textrm', '\\textbf', '\\textit', '\\mathrm', '\\operatorname', '\\mbox'];
+const STYLE_COMMANDS = ['\\mathbf', '\\mathit', '\\boldsymbol', '\\displaystyle', '\\textstyle', '\\left', '\\right', '\\big', '\\Big', '\\bigg', '\\Bigg', '\\limits'];
+const SPACES = ['\\,', '\\;', '\\:', '\\!', '\\ ', '\\quad', '\\qquad', '~'];
+const MATRIX_ENVIRONMENTS = ['matrix', 'pmatrix', 'bmatrix', 'vmatrix', 'Vmatrix', 'array'];
+const ROOTS: Record<string, string> = { '2': 'square', '3': 'cube' };
+const POWERS: Record<string, string> = { '2': 'squared', '3': 'cubed', '\\circ': 'degrees', '\\prime': 'prime', "'": 'prime' };
+
+const tokenize = (tex: string): string[] =>
+  tex.match(/\\[a-zA-Z]+|\\.|\d+(?:\.\d+)?|\s+|[\s\S]/g) || [];
+
+// A single letter, number or symbol, which reads naturally without "the fraction" or a closing pause.
+const isSimple = (tex: string) => /^\s*(\d+(?:\.\d+)?|[a-zA-Z]|\\[a-zA-Z]+)\s*$/.test(tex);
+
+const ordinal = (n: string) => /^\d+$/.test(n)
+  ? `${n}${['11', '12', '13'].includes(n.slice(-2)) ? 'th' : ({ '1': 'st', '2': 'nd', '3': 'rd' } as Record<string, string>)[n.slice(-1)] || 'th'}`
+  : `${n}th`;
+
+export const latexToSpeech = (tex: string): string => {
+  const tokens = tokenize(tex);
+  let pos = 0;
+  const environments: string[] = [];
+
+  const skipSpace = () => {
+    while (pos < tokens.length && /^\s+$/.test(tokens[pos])) pos++;
+  };
+
+  // Source of the tokens up to the bracket matching `open`, which has already been consumed.
+  const readBalanced = (open: string, close: string): string => {
+    let depth = 1;
+    const start = pos;
+    while (pos < tokens.length) {
+      if (tokens[pos] === open) depth++;
+      else if (tokens[pos] === close && --depth === 0) break;
+      pos++;
+    }
+    const inner = tokens.slice(start, pos).join('');
+    pos++;
+    return inner;
+  };
+
+  // The next argument: a {group}, or a single token.
+  const readArgument = (): string => {
+    skipSpace();
+    const token = tokens[pos++];
+    if (token === undefined) return '';
+    return token === '{' ? readBalanced('{', '}') : token;
+  };
+
+  const readOptional = (): string | undefined => {
+    skipSpace();
+    if (tokens[pos] !== '[') return undefined;
+    pos++;
+    return readBalanced('[', ']');
+  };
+
+  // Sub- and superscripts directly after an operator, in either order.
+  const readLimits = () => {
+    const limits: { lower?: string; upper?: string } = {};
+    for (;;) {
+      skipSpace();
+      if (STYLE_COMMANDS.includes(tokens[pos])) pos++;
+      else if (tokens[pos] === '_' && limits.lower === undefined) {
+        pos++;
+        limits.lower = readArgument();
+      } else if (tokens[pos] === '^' && limits.upper === undefined) {
+        pos++;
+        limits.upper = readArgument();
+      } else return limits;
+    }
+  };
+
+  // `(x + 1)` or `\left( x + 1 \right)` right after a function name, read without its brackets.
+  const readParenthesized = (): string | undefined => {
+    skipSpace();
+    const start = pos;
+    if (tokens[pos] === '\\left') pos++;
+    skipSpace();
+    if (tokens[pos] !== '(') {
+      pos = start;
+      return undefined;
+    }
+    pos++;
+    return readBalanced('(', ')').replace(/\\right\s*$/, '');
+  };
+
+  const power = (exponent: string) => {
+    const trimmed = exponent.trim();
+    if (POWERS[trimmed]) return POWERS[trimmed];
+    return isSimple(trimmed) ? `to the power of ${latexToSpeech(trimmed)}` : `to the power of ${latexToSpeech(trimmed)},`;
+  };
+
+  const fraction = (numerator: string, denominator: string) => {
+    const derivative = /^d\s*([a-zA-Z])$/.exec(denominator.trim());
+    if (derivative && numerator.trim() === 'd') return `the derivative with respect to ${derivative[1]} of`;
+    const leibniz = /^d\s*([a-zA-Z])$/.exec(numerator.trim());
+    if (derivative && leibniz) return `d ${leibniz[1]} by d ${derivative[1]}`;
+    if (isSimple(numerator) && isSimple(denominator)) return `${latexToSpeech(numerator)} over ${latexToSpeech(denominator)}`;
+    return `the fraction ${latexToSpeech(numerator)}, over ${latexToSpeech(denominator)},`;
+  };
+
+  const words: string[] = [];
+  let insideAbs = false;
+  while (pos < tokens.length) {
+    const token = tokens[pos++];
+    if (/^\s+$/.test(token) || token === '{' || token === '}' || SPACES.includes(token) || STYLE_COMMANDS.includes(token)) continue;
+
+    if (token === '^') words.push(power(readArgument()));
+    else if (token === '_') words.push('sub', latexToSpeech(readArgument()));
+    else if (FRACTIONS.includes(token)) {
+      const numerator = readArgument();
+      const spoken = fraction(numerator, readArgument());
+      words.push(spoken);
+      // d/dx(x^3 + 2x): the brackets only delimit what is differentiated.
+      const argument = spoken.endsWith(' of') ? readParenthesized() : undefined;
+      if (argument !== undefined) words.push(latexToSpeech(argument) + ',');
+    } else if (token === '\\sqrt') {
+      const index = readOptional()?.trim();
+      const radicand = readArgument();
+      const root = !index ? 'the square root of' : `the ${ROOTS[index] || ordinal(latexToSpeech(index))} root of`;
+      words.push(root, latexToSpeech(radicand) + (isSimple(radicand) ? '' : ','));
+    } else if (token === '\\binom') {
+      const n = readArgument();
+      words.push(latexToSpeech(n), 'choose', latexToSpeech(readArgument()));
+    } else if (TEXT_COMMANDS.includes(token)) {
+      words.push(readArgument());
+    } else if (token === '\\vec') {
+      words.push('vector', latexToSpeech(readArgument()));
+    } else if (['\\bar', '\\overline', '\\hat', '\\dot', '\\tilde'].includes(token)) {
+      const accent = { '\\overline': 'bar', '\\dot': 'dot', '\\hat': 'hat', '\\tilde': 'tilde' }[token] || 'bar';
+      words.push(latexToSpeech(readArgument()), accent);
+    } else if (BIG_OPERATORS[token]) {
+      const { lower, upper } = readLimits();
+      const from = lower !== undefined ? (upper !== undefined ? `from ${latexToSpeech(lower)} to ${latexToSpeech(upper)}` : `over ${latexToSpeech(lower)}`) : '';
+      words.push(BIG_OPERATORS[token], from, 'of');
+    } else if (token === '\\lim') {
+      const { lower } = readLimits();
+      words.push(lower !== undefined ? `the limit as ${latexToSpeech(lower)} of` : 'the limit of');
+    } else if (FUNCTIONS[token]) {
+      const { lower, upper } = readLimits();
+      const name = token === '\\log' && lower !== undefined ? `log base ${latexToSpeech(lower)}` : FUNCTIONS[token];
+      const inverse = upper?.trim() === '-1';
+      words.push(inverse ? `inverse ${name}` : name);
+      if (upper !== undefined && !inverse) words.push(power(upper));
+      const argument = readParenthesized();
+      words.push('of', ...(argument !== undefined ? [latexToSpeech(argument) + ','] : []));
+    } else if (token === '\\begin') {
+      const environment = readArgument();
+      if (environment === 'array') readArgument();
+      environments.push(environment);
+      if (MATRIX_ENVIRONMENTS.includes(environment)) words.push(environment.startsWith('v') || environment.startsWith('V') ? 'the determinant of the matrix,' : 'the matrix,');
+      else if (environment === 'cases') words.push('the cases,');
+    } else if (token === '\\end') {
+      readArgument();
+      environments.pop();
+      words.push(',');
+    } else if (token === '&') {
+      if (MATRIX_ENVIRONMENTS.includes(environments[environments.length - 1])) words.push(',');
+      else if (environments[environments.length - 1] === 'cases') words.push(', when');
+    } else if (token === '\\\\') {
+      words.push(MATRIX_ENVIRONMENTS.includes(environments[environments.length - 1]) ? '; next row,' : ';');
+    } else if (token === '\\mathbb') {
+      const set = readArgument();
+      words.push(({ R: 'the real numbers', Z: 'the integers', N: 'the natural numbers', Q: 'the rationals', C: 'the complex numbers' } as Record<string, string>)[set] || set);
+    } else if (token === '|' || token === '\\vert') {
+      words.push(insideAbs ? ',' : 'the absolute value of');
+      insideAbs = !insideAbs;
+    } else if (WORDS[token]) {
+      words.push(WORDS[token]);
+    } else if (token.startsWith('\\')) {
+      // Unknown commands are read by name, which beats reading their backslash.
+      words.push(token.slice(1));
+    } else {
+      words.push(token);
+    }
+  }
+
+  return words.filter(Boolean).join(' ')
+    .replace(/\s+([,;])/g, '$1')
+    .replace(/([,;])(?:\s*[,;])+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .replace(/^[,;\s]+|[,;\s]+$/g, '');
+};
+
+/**
+ * Prose with embedded math, ready to be spoken: math is converted and the
+ * Markdown markers that would otherwise be read out are dropped.
+ */
+export const textToSpeech = (text: string): string =>
+  tokenizeMath(text)
+    .map(s => s.math ? ` ${latexToSpeech(s.value)} ` : s.value.replace(/[*_`#>]+/g, ''))
+    .join('')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Ends a spoken section with a full stop, so consecutive sections don't run together.
+const sentence = (text: string) => /[.!?]$/.test(text) ? text : `${text}.`;
+
+/**
+ * A solution as the sections it is read aloud in, one at a time. Section ids
+ * match what `MathResponse` highlights while each section is spoken.
+ */
+export const readAloudSections = (data: SolveResponse): ReadAloudSection[] => {
+  const sections: ReadAloudSection[] = [];
+  if (data.description.trim()) {
+    sections.push({ id: 'description', label: 'Problem', text: sentence(`Problem. ${textToSpeech(data.description)}`) });
+  }
+  if (data.concepts.length > 0) {
+    sections.push({ id: 'concepts', label: 'Key concepts', text: sentence(`Key concepts: ${data.concepts.map(textToSpeech).join(', ')}`) });
+  }
+  data.steps.forEach((step, idx) => {
+    const parts = [`Step ${idx + 1}: ${textToSpeech(step.title)}`, textToSpeech(step.explanation), textToSpeech(step.math)];
+    sections.push({ id: `step-${idx}`, label: `Step ${idx + 1}`, text: parts.filter(Boolean).map(sentence).join(' ') });
+  });
+  sections.push({ id: 'answer', label: 'Answer', text: sentence(`The answer is ${textToSpeech(data.finalAnswer)}`) });
+  if (data.tutoringTip?.trim()) {
+    sections.push({ id: 'tip', label: 'Tip', text: sentence(`Tip: ${textToSpeech(data.tutoringTip)}`) });
+  }
+  return sections;
+};
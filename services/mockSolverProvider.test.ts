@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PartialSolveResponse } from '../types';
+import { verifySolution } from './answerVerifier';
+import { loadSolverConfig } from './config';
+import { MOCK_SOLUTIONS } from './fixtures/mockSolutions';
+import { createMockProvider } from './mockSolverProvider';
+
+const solve = (input: string, options = {}) =>
+  createMockProvider().solve({ input, level: 'standard', history: [] }, options);
+
+describe('createMockProvider', () => {
+  it('answers differently phrased problems from the same fixture', async () => {
+    const result = await solve('Solve 2x + 5 = 15.');
+    expect(result).toMatchObject({ ok: true, data: { finalAnswer: '$x = 5$' } });
+  });
+
+  it('streams partial solutions before the final one', async () => {
+    const partials: PartialSolveResponse[] = [];
+    await solve('x^2 - 5x + 6 = 0', { onPartial: (partial: PartialSolveResponse) => partials.push(partial) });
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1].steps?.length).toBe(MOCK_SOLUTIONS['x^2-5x+6=0'].steps.length);
+  });
+
+  it('hands out copies of the fixtures', async () => {
+    const result = await solve('2x+5=15');
+    if (!result.ok) throw new Error('mock solve failed');
+    result.data.finalAnswer = 'x = 0';
+    expect(MOCK_SOLUTIONS['2x+5=15'].finalAnswer).toBe('$x = 5$');
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await solve('2x+5=15', { signal: controller.signal });
+    expect(result).toMatchObject({ ok: false, error: { kind: 'aborted' } });
+  });
+
+  it('serves fixtures whose final answers check out', async () => {
+    for (const problem of ['2x+5=15', 'x^2-5x+6=0']) {
+      const result = await solve(problem);
+      if (!result.ok) throw new Error('mock solve failed');
+      expect(verifySolution(problem, result.data).status).toBe('verified');
+    }
+  });
+});
+
+describe('loadSolverConfig', () => {
+  it('only uses the mock provider when asked to', () => {
+    expect(loadSolverConfig({} as ImportMetaEnv).provider).toBe('gemini');
+    expect(loadSolverConfig({ SOLVER_PROVIDER: 'mock' } as ImportMetaEnv).provider).toBe('mock');
+  });
+});
@@ -0,0 +1,64 @@
+import { SolverProvider, SolveResponse } from "../types";
+import { MOCK_SOLUTIONS, MOCK_TRANSCRIPTION, MOCK_WORKSHEET, mockFallbackSolution, mockPracticeProblems } from "./fixtures/mockSolutions";
+import { solveFailure, validateSolveResponse } from "./solveResponseSchema";
+import { SolveResponseStreamParser } from "./solveResponseStream";
+
+export interface MockProviderOptions {
+  fixtures?: Record<string, SolveResponse>;
+  latencyMs?: number;
+}
+
+// Number of chunks the fixture JSON is split into when simulating a stream.
+const MOCK_STREAM_CHUNKS = 12;
+
+/**
+ * Normalizes problem text so trivially different phrasings share a fixture:
+ * lowercase, no whitespace, no leading "solve", no trailing punctuation.
+ */
+export const normalizeProblemKey = (input: string) =>
+  input
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/^solve:?/, '')
+    .replace(/[.?!]+$/, '');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = ({
+  fixtures = MOCK_SOLUTIONS,
+  latencyMs = 0
+}: MockProviderOptions = {}): SolverProvider => ({
+  name: 'mock',
+  solve: async ({ input, transcription }, { signal, onPartial } = {}) => {
+    const problem = transcription || input;
+    const fixture = fixtures[normalizeProblemKey(problem)] || mockFallbackSolution(problem);
+
+    // Replay the fixture as a chunked stream so progressive rendering can be exercised offline.
+    const text = JSON.stringify(fixture);
+    const parser = new SolveResponseStreamParser();
+    const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+    for (let offset = 0; offset < text.length; offset += chunkSize) {
+      if (latencyMs > 0) await delay(latencyMs / MOCK_STREAM_CHUNKS);
+      if (signal?.aborted) {
+        return solveFailure('aborted', "Stopped before the solution was complete.", ["request aborted by user"]);
+      }
+      const partial = parser.push(text.slice(offset, offset + chunkSize));
+      if (partial) onPartial?.(partial);
+    }
+
+    // Hand out copies so callers can never mutate the shared fixtures.
+    return validateSolveResponse(structuredClone(fixture));
+  },
+  generatePractice: async ({ count }) => {
+    if (latencyMs > 0) await delay(latencyMs);
+    return mockPracticeProblems(count);
+  },
+  transcribeMath: async () => {
+    if (latencyMs > 0) await delay(latencyMs);
+    return MOCK_TRANSCRIPTION;
+  },
+  enumerateProblems: async () => {
+    if (latencyMs > 0) await delay(latencyMs);
+    return structuredClone(MOCK_WORKSHEET);
+  }
+});
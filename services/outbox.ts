@@ -0,0 +1,40 @@
+import { OutboxItem } from "../types";
+import { OUTBOX_STORE, withStore } from "./database";
+
+export const queueProblem = async (item: OutboxItem): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put(item));
+};
+
+// Oldest first, the order they were asked in.
+export const listOutbox = (): Promise<OutboxItem[]> =>
+  withStore<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.index('createdAt').getAll());
+
+export const removeFromOutbox = async (id: string): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+};
+
+let draining: Promise<number> | null = null;
+
+/**
+ * Works through the outbox oldest first and resolves with how many problems
+ * were solved. `solve` returns false when an item could not be handled yet
+ * (the connection dropped again), which keeps it queued and ends the run.
+ * Overlapping calls share one run.
+ */
+export const drainOutbox = (solve: (item: OutboxItem) => Promise<boolean>): Promise<number> => {
+  if (draining) return draining;
+  draining = (async () => {
+    let solved = 0;
+    try {
+      for (const item of await listOutbox()) {
+        if (!navigator.onLine || !(await solve(item))) break;
+        await removeFromOutbox(item.id);
+        solved++;
+      }
+    } finally {
+      draining = null;
+    }
+    return solved;
+  })();
+  return draining;
+};
@@ -0,0 +1,228 @@
+import { ChatSession, EXPLANATION_LEVELS, ExplanationLevel, MessageRole } from "../types";
+
+/**
+ * Per-concept statistics over the saved sessions: how often a concept came up,
+ * at which explanation level, and how practice and tutoring on it went.
+ * Everything is computed in the browser from IndexedDB.
+ */
+
+export const PROGRESS_WEEKS = 8;
+const DAY_MS = 86400000;
+const WEEK_MS = 7 * DAY_MS;
+// A concept not seen for this long is worth revisiting.
+const STALE_AFTER_DAYS = 21;
+// Share of explanations at the deep level, or of wrong practice answers, that marks a weak topic.
+const STRUGGLE_SHARE = 0.5;
+const MAX_RECOMMENDATIONS = 3;
+
+export interface ConceptStats {
+  concept: string;
+  // Distinct problems solved that used the concept; re-explanations don't add to it.
+  problems: number;
+  // Explanations at each level, including re-explanations.
+  levels: Record<ExplanationLevel, number>;
+  practiceAttempts: number;
+  practiceFailures: number;
+  // Practice problems eventually answered correctly.
+  practiceSolved: number;
+  // Wrong attempts at steps while being tutored.
+  tutorMisses: number;
+  firstSeen: number;
+  lastSeen: number;
+  // Problems per week, oldest first, ending with the current week.
+  weekly: number[];
+}
+
+// 'deep': mostly needed the deep explanation. 'practice': mostly wrong in practice.
+export type ConceptFlag = 'deep' | 'practice';
+
+export interface ConceptReport extends ConceptStats {
+  flags: ConceptFlag[];
+}
+
+export interface Recommendation {
+  concept: string;
+  reason: string;
+}
+
+export interface ProgressReport {
+  generatedAt: number;
+  sessions: number;
+  problems: number;
+  // Start of each week in `weekly`.
+  weekStarts: number[];
+  weekly: number[];
+  // Most frequent first.
+  concepts: ConceptReport[];
+  recommendations: Recommendation[];
+}
+
+const conceptKey = (concept: string) => concept.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Weeks end at the coming midnight, so the last one always includes today.
+const weekWindow = (now: number) => {
+  const end = new Date(now);
+  end.setHours(24, 0, 0, 0);
+  return Array.from({ length: PROGRESS_WEEKS }, (_, idx) => end.getTime() - (PROGRESS_WEEKS - idx) * WEEK_MS);
+};
+
+const weekIndex = (weekStarts: number[], timestamp: number) => {
+  if (timestamp < weekStarts[0] || timestamp >= weekStarts[weekStarts.length - 1] + WEEK_MS) return -1;
+  return Math.floor((timestamp - weekStarts[0]) / WEEK_MS);
+};
+
+const deepShare = (stats: ConceptStats) => {
+  const explanations = EXPLANATION_LEVELS.reduce((sum, level) => sum + stats.levels[level], 0);
+  return explanations > 0 ? stats.levels.deep / explanations : 0;
+};
+
+const conceptFlags = (stats: ConceptStats): ConceptFlag[] => {
+  const flags: ConceptFlag[] = [];
+  if (stats.levels.deep > 0 && deepShare(stats) >= STRUGGLE_SHARE) flags.push('deep');
+  if (stats.practiceFailures > 0 && stats.practiceFailures / stats.practiceAttempts >= STRUGGLE_SHARE) flags.push('practice');
+  return flags;
+};
+
+/**
+ * What to review next: weak topics first (wrong practice answers weigh most),
+ * then topics that have gone quiet, then topics that were solved but never
+ * practiced.
+ */
+const recommend = (concepts: ConceptReport[], now: number): Recommendation[] => {
+  const candidates = concepts.flatMap(stats => {
+    const idleDays = Math.floor((now - stats.lastSeen) / DAY_MS);
+    let reason = '';
+    let score = 0;
+    if (stats.flags.includes('practice')) {
+      reason = `${stats.practiceFailures} of ${stats.practiceAttempts} practice answers were wrong`;
+      score = 3 + stats.practiceFailures;
+    } else if (stats.flags.includes('deep')) {
+      reason = `Needed the deep explanation ${stats.levels.deep === 1 ? 'once' : `${stats.levels.deep} times`}`;
+      score = 2 + stats.levels.deep / 2;
+    } else if (stats.tutorMisses >= 2) {
+      reason = `${stats.tutorMisses} wrong steps while tutored`;
+      score = 2 + stats.tutorMisses / 2;
+    } else if (idleDays >= STALE_AFTER_DAYS && stats.problems >= 2) {
+      reason = `Not seen for ${Math.floor(idleDays / 7)} weeks`;
+      score = 1 + stats.problems / 10;
+    } else if (stats.problems > 0 && stats.practiceAttempts === 0) {
+      reason = `Solved ${stats.problems === 1 ? 'once' : `${stats.problems} times`} but never practiced`;
+      score = stats.problems / 10;
+    }
+    return reason ? [{ concept: stats.concept, reason, score }] : [];
+  });
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RECOMMENDATIONS)
+    .map(({ concept, reason }) => ({ concept, reason }));
+};
+
+export const buildProgressReport = (sessions: ChatSession[], now = Date.now()): ProgressReport => {
+  const weekStarts = weekWindow(now);
+  const weekly = new Array(PROGRESS_WEEKS).fill(0);
+  const byKey = new Map<string, ConceptStats>();
+  let problems = 0;
+
+  const statsFor = (concept: string, timestamp: number) => {
+    const key = conceptKey(concept);
+    let stats = byKey.get(key);
+    if (!stats) {
+      stats = {
+        concept: concept.trim().replace(/\s+/g, ' '),
+        problems: 0,
+        levels: { quick: 0, standard: 0, deep: 0, academic: 0 },
+        practiceAttempts: 0,
+        practiceFailures: 0,
+        practiceSolved: 0,
+        tutorMisses: 0,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        weekly: new Array(PROGRESS_WEEKS).fill(0)
+      };
+      byKey.set(key, stats);
+    }
+    stats.firstSeen = Math.min(stats.firstSeen, timestamp);
+    stats.lastSeen = Math.max(stats.lastSeen, timestamp);
+    return stats;
+  };
+
+  // One concept listed twice by the same solution still counts once.
+  const distinct = (concepts: string[]) =>
+    [...new Map(concepts.filter(c => c.trim()).map(c => [conceptKey(c), c])).values()];
+
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (message.role !== MessageRole.ASSISTANT) continue;
+
+      if (message.metadata) {
+        const week = weekIndex(weekStarts, message.timestamp);
+        if (!message.reexplainOf) {
+          problems++;
+          if (week !== -1) weekly[week]++;
+        }
+        const tutorMisses = message.tutor?.attempts.filter(a => a.status === 'incorrect').length ?? 0;
+        for (const concept of distinct(message.metadata.concepts || [])) {
+          const stats = statsFor(concept, message.timestamp);
+          stats.levels[message.level || 'standard']++;
+          stats.tutorMisses += tutorMisses;
+          if (!message.reexplainOf) {
+            stats.problems++;
+            if (week !== -1) stats.weekly[week]++;
+          }
+        }
+      }
+
+      if (message.practice) {
+        const attempts = message.practice.problems.flatMap(p => p.attempts);
+        if (attempts.length === 0) continue;
+        const lastAttempt = Math.max(...attempts.map(a => a.timestamp));
+        for (const concept of distinct(message.practice.concepts)) {
+          const stats = statsFor(concept, lastAttempt);
+          stats.practiceAttempts += attempts.length;
+          stats.practiceFailures += attempts.filter(a => a.status === 'incorrect').length;
+          stats.practiceSolved += message.practice.problems.filter(p => p.attempts.some(a => a.status === 'correct')).length;
+        }
+      }
+    }
+  }
+
+  const concepts = [...byKey.values()]
+    .map((stats): ConceptReport => ({ ...stats, flags: conceptFlags(stats) }))
+    .sort((a, b) => b.problems - a.problems || b.lastSeen - a.lastSeen);
+
+  return {
+    generatedAt: now,
+    sessions: sessions.length,
+    problems,
+    weekStarts,
+    weekly,
+    concepts,
+    recommendations: recommend(concepts, now)
+  };
+};
+
+const isoDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per concept, with a column for each week's problem count. */
+export const progressCsv = (report: ProgressReport): string => {
+  const header = [
+    'concept', 'problems', ...EXPLANATION_LEVELS.map(level => `level_${level}`),
+    'practice_attempts', 'practice_failures', 'practice_solved', 'tutor_misses',
+    'first_seen', 'last_seen', 'flags', ...report.weekStarts.map(start => `week_${isoDate(start)}`)
+  ];
+  const rows = report.concepts.map(c => [
+    c.concept, c.problems, ...EXPLANATION_LEVELS.map(level => c.levels[level]),
+    c.practiceAttempts, c.practiceFailures, c.practiceSolved, c.tutorMisses,
+    isoDate(c.firstSeen), isoDate(c.lastSeen), c.flags.join(';'), ...c.weekly
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const progressJson = (report: ProgressReport): string => JSON.stringify(report, null, 2);
+
+export const progressFileSlug = (report: ProgressReport) => `math-progress-${isoDate(report.generatedAt)}`;
@@ -0,0 +1,30 @@
+/**
+ * Registers the service worker that caches the app shell for offline use.
+ * Only production builds register it; the dev server's modules change too often.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => console.error("Service worker registration failed:", err));
+  });
+};
+
+// Asked when the first problem is queued offline, since that is when a notification becomes useful.
+export const requestNotificationPermission = async () => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  await Notification.requestPermission().catch(() => undefined);
+};
+
+/**
+ * Shows a system notification when permission was granted. Goes through the
+ * service worker where there is one, as some mobile browsers require.
+ */
+export const notifyUser = async (title: string, body: string) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, icon: `${import.meta.env.BASE_URL}icon.svg`, tag: 'outbox' };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) await registration.showNotification(title, options);
+  else new Notification(title, options);
+};
@@ -0,0 +1,85 @@
+import { SolveError } from "../types";
+
+export interface RetryPolicy {
+  // Total tries, including the first one.
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longer retry hints than this are not waited out; the failure is reported instead.
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxRetryAfterMs: 30000
+};
+
+/**
+ * Exponential backoff with full jitter: a random wait between zero and
+ * base * 2^attempt (capped), so clients that failed together spread out.
+ */
+export const backoffDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random = Math.random) =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Delay before retrying `error` after the given zero-based attempt, or null
+ * when it should not be retried. A server retry hint takes precedence over
+ * backoff, with a little jitter on top so waiting clients don't return at once.
+ */
+export const retryDelayFor = (error: SolveError, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random = Math.random): number | null => {
+  if (!error.retryable || attempt + 1 >= policy.maxAttempts) return null;
+  if (error.retryAfterMs !== undefined) {
+    if (error.retryAfterMs > policy.maxRetryAfterMs) return null;
+    return error.retryAfterMs + Math.round(random() * policy.baseDelayMs);
+  }
+  return backoffDelay(attempt, policy, random);
+};
+
+interface RetryOptions {
+  classify: (error: unknown) => SolveError;
+  signal?: AbortSignal;
+  policy?: RetryPolicy;
+  onRetry?: (error: SolveError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `task` until it succeeds, retrying transient failures as `classify`
+ * judges them. The last error is rethrown unchanged once retries run out.
+ */
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  { classify, signal, policy = DEFAULT_RETRY_POLICY, onRetry }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const failure = classify(error);
+      const delayMs = retryDelayFor(failure, attempt, policy);
+      if (delayMs === null) throw error;
+      console.warn(`Retrying after ${failure.kind} (attempt ${attempt + 1}), waiting ${delayMs} ms`);
+      onRetry?.(failure, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
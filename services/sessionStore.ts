@@ -0,0 +1,110 @@
+import { ChatHistoryItem, ChatSession, Message, MessageRole } from "../types";
+import { openDatabase, SESSION_STORE, withStore } from "./database";
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? text.substring(0, max) + '...' : text;
+
+export const deriveSessionTitle = (messages: Message[]): string => {
+  const solved = messages.find(m => m.role === MessageRole.ASSISTANT && m.metadata?.description);
+  const firstUser = messages.find(m => m.role === MessageRole.USER);
+  return truncate(solved?.metadata?.description || firstUser?.content || 'Math Problem', 30);
+};
+
+const toHistoryItem = (session: ChatSession): ChatHistoryItem => {
+  const last = session.messages[session.messages.length - 1];
+  return {
+    id: session.id,
+    title: session.title,
+    timestamp: session.updatedAt,
+    lastMessage: last?.metadata?.finalAnswer || last?.content || ''
+  };
+};
+
+export const getSession = async (id: string): Promise<ChatSession | undefined> =>
+  withStore<ChatSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+
+/**
+ * Writes the message list of a session, creating the session on first save.
+ * An existing title (possibly renamed by the user) is kept.
+ */
+export const saveSessionMessages = async (id: string, messages: Message[]): Promise<ChatHistoryItem> => {
+  const existing = await getSession(id);
+  const now = Date.now();
+  const session: ChatSession = {
+    id,
+    title: existing?.title || deriveSessionTitle(messages),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    messages
+  };
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+  return toHistoryItem(session);
+};
+
+// Every saved session, oldest first, for statistics across the whole history.
+export const listAllSessions = async (): Promise<ChatSession[]> => {
+  const sessions = await withStore<ChatSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const existing = await getSession(id);
+  if (!existing) return;
+  await withStore(SESSION_STORE, 'readwrite', store => store.put({ ...existing, title: title.trim() || existing.title }));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearSessions = async (): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.clear());
+};
+
+// Where the previous page of history ended: its oldest entry.
+export interface HistoryCursor {
+  updatedAt: number;
+  id: string;
+}
+
+export const historyCursorOf = (item: ChatHistoryItem): HistoryCursor => ({ updatedAt: item.timestamp, id: item.id });
+
+/**
+ * Returns one page of history entries, most recently updated first, starting
+ * after `after`. Paging by position would skip or repeat entries whenever a
+ * session is saved between pages, since saving moves it to the top.
+ */
+export const listSessions = async (
+  after?: HistoryCursor,
+  limit = HISTORY_PAGE_SIZE
+): Promise<{ items: ChatHistoryItem[]; hasMore: boolean }> => {
+  const db = await openDatabase();
+  const index = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).index('updatedAt');
+
+  return new Promise((resolve, reject) => {
+    const items: ChatHistoryItem[] = [];
+    const request = index.openCursor(after ? IDBKeyRange.upperBound(after.updatedAt) : null, 'prev');
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, hasMore: false });
+        return;
+      }
+      // Entries updated in the same millisecond come in descending id order.
+      if (after && cursor.key === after.updatedAt && String(cursor.primaryKey) >= after.id) {
+        cursor.continue();
+        return;
+      }
+      if (items.length === limit) {
+        resolve({ items, hasMore: true });
+        return;
+      }
+      items.push(toHistoryItem(cursor.value as ChatSession));
+      cursor.continue();
+    };
+  });
+};
@@ -0,0 +1,183 @@
+import { EXPLANATION_LEVELS, Message, SharedSolution } from "../types";
+import { validateSolveResponse } from "./solveResponseSchema";
+import { verifySolution } from "./answerVerifier";
+import { downloadFile, exportFileSlug } from "./solutionExport";
+
+/**
+ * Version of the serialized format. Bump it whenever the stored shape changes
+ * and add an upgrade step below, so links made by older builds keep opening.
+ */
+export const SHARE_FORMAT_VERSION = 1;
+
+// Hash route of the read-only view; a payload, if any, follows after a slash.
+export const SHARE_ROUTE = '#/shared';
+
+// Longer links get cut off by chat apps and mail clients, so those go out as a file.
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+export const SHARE_BUNDLE_EXTENSION = '.mathshare.json';
+
+// Payload prefixes: deflate-compressed, or plain where CompressionStream is missing.
+const COMPRESSED_PREFIX = 'z.';
+const PLAIN_PREFIX = 'j.';
+
+interface SharePayloadV1 {
+  v: 1;
+  question: { content: string; image?: string; transcription?: string };
+  solution: unknown;
+  level?: string;
+  sharedAt: number;
+}
+
+// Upgrade steps keyed by the version they upgrade from, each returning the next version's shape.
+const UPGRADES: Record<number, (payload: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export type ShareOutcome = 'link' | 'bundle';
+
+// Only plain base64 raster images; anything else in a link could smuggle markup into the exports.
+const SHARED_IMAGE_PATTERN = /^data:image\/(png|jpeg|webp|gif);base64,[A-Za-z0-9+/=]+$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const toSharePayload = (shared: SharedSolution): SharePayloadV1 => ({
+  v: SHARE_FORMAT_VERSION,
+  question: {
+    content: shared.question.content,
+    ...(shared.question.image ? { image: shared.question.image } : {}),
+    ...(shared.question.transcription ? { transcription: shared.question.transcription } : {})
+  },
+  solution: shared.solution,
+  ...(shared.level ? { level: shared.level } : {}),
+  sharedAt: shared.sharedAt
+});
+
+/**
+ * Brings a payload of any known version up to date and checks it, throwing
+ * a message fit for the reader when it cannot be shown.
+ */
+export const readSharePayload = (value: unknown): SharedSolution => {
+  if (!isRecord(value) || typeof value.v !== 'number') throw new Error("This doesn't look like a shared solution.");
+  if (value.v > SHARE_FORMAT_VERSION) throw new Error("This solution was shared from a newer version of the app. Reload to update, then open it again.");
+
+  let payload = value;
+  let version = value.v;
+  while (version < SHARE_FORMAT_VERSION) {
+    const upgrade = UPGRADES[version];
+    if (!upgrade) throw new Error(`Shared solutions in format ${version} can no longer be opened.`);
+    payload = upgrade(payload);
+    // Each step must move forward, or a broken upgrade would loop or skip the checks below.
+    if (!isRecord(payload) || typeof payload.v !== 'number' || payload.v <= version) throw new Error("The shared solution is incomplete or damaged.");
+    version = payload.v;
+  }
+  if (version !== SHARE_FORMAT_VERSION) throw new Error("The shared solution is incomplete or damaged.");
+
+  const result = validateSolveResponse(payload.solution);
+  if (result.ok === false) throw new Error("The shared solution is incomplete or damaged.");
+  const question = isRecord(payload.question) ? payload.question : {};
+  const content = typeof question.content === 'string' ? question.content : '';
+  const transcription = typeof question.transcription === 'string' ? question.transcription : undefined;
+  return {
+    question: {
+      content,
+      image: typeof question.image === 'string' && SHARED_IMAGE_PATTERN.test(question.image) ? question.image : undefined,
+      transcription
+    },
+    solution: result.data,
+    level: EXPLANATION_LEVELS.find(lvl => lvl === payload.level),
+    // Checked again here rather than taken from the link, which could claim anything.
+    verification: verifySolution(transcription || content, result.data),
+    sharedAt: typeof payload.sharedAt === 'number' ? payload.sharedAt : Date.now()
+  };
+};
+
+export const sharedSolutionFrom = (question: Message | undefined, answer: Message): SharedSolution | null =>
+  answer.metadata ? {
+    question: { content: question?.content || '', image: question?.image, transcription: question?.transcription },
+    solution: answer.metadata,
+    level: answer.level,
+    verification: answer.verification,
+    sharedAt: Date.now()
+  } : null;
+
+export const encodeSharedSolution = async (shared: SharedSolution): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(toSharePayload(shared)));
+  if (typeof CompressionStream === 'undefined') return PLAIN_PREFIX + toBase64Url(bytes);
+  return COMPRESSED_PREFIX + toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSharedSolution = async (encoded: string): Promise<SharedSolution> => {
+  let parsed: unknown;
+  try {
+    let json: string;
+    if (encoded.startsWith(COMPRESSED_PREFIX)) {
+      if (typeof DecompressionStream === 'undefined') throw new Error("unsupported");
+      json = new TextDecoder().decode(await pipeBytes(fromBase64Url(encoded.slice(COMPRESSED_PREFIX.length)), new DecompressionStream('deflate-raw')));
+    } else if (encoded.startsWith(PLAIN_PREFIX)) {
+      json = new TextDecoder().decode(fromBase64Url(encoded.slice(PLAIN_PREFIX.length)));
+    } else {
+      throw new Error("unknown prefix");
+    }
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This share link is incomplete or damaged. Ask for it to be sent again.");
+  }
+  return readSharePayload(parsed);
+};
+
+export const shareLinkFor = (encoded: string) =>
+  `${window.location.origin}${window.location.pathname}${SHARE_ROUTE}/${encoded}`;
+
+// The encoded payload of a share link, or '' for the bare route.
+export const sharePayloadFromHash = (hash: string): string | null => {
+  if (hash !== SHARE_ROUTE && !hash.startsWith(`${SHARE_ROUTE}/`)) return null;
+  return hash.slice(SHARE_ROUTE.length + 1);
+};
+
+export const shareBundleText = (shared: SharedSolution) => JSON.stringify(toSharePayload(shared), null, 2);
+
+export const readShareBundle = async (file: Blob): Promise<SharedSolution> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not a shared solution.");
+  }
+  return readSharePayload(parsed);
+};
+
+/**
+ * Copies a link to the solution, or saves a bundle file when the link would be
+ * too long to survive being pasted (usually because of the problem image).
+ */
+export const shareSolution = async (shared: SharedSolution, title: string): Promise<ShareOutcome> => {
+  const link = shareLinkFor(await encodeSharedSolution(shared));
+  if (link.length > MAX_SHARE_LINK_LENGTH) {
+    downloadFile(`${exportFileSlug(title)}${SHARE_BUNDLE_EXTENSION}`, shareBundleText(shared), 'application/json');
+    return 'bundle';
+  }
+  try {
+    await navigator.clipboard.writeText(link);
+  } catch {
+    // Clipboard access needs a secure context and focus; let the user copy it by hand.
+    window.prompt("Copy this link to share the solution:", link);
+  }
+  return 'link';
+};
@@ -0,0 +1,165 @@
+import { ExplanationLevel, SolveMode, SolveResponse } from "../types";
+import { openDatabase, SOLUTION_CACHE_STORE, withStore } from "./database";
+import { normalizeProblemKey } from "./mockSolverProvider";
+
+// Least recently used entries beyond this are evicted after each write.
+export const SOLUTION_CACHE_MAX_ENTRIES = 200;
+export const SOLUTION_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedSolution {
+  key: string;
+  solution: SolveResponse;
+  createdAt: number;
+  usedAt: number;
+}
+
+export interface SolutionCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  expired: number;
+}
+
+export interface SolutionCacheKeyParts {
+  provider: string;
+  input: string;
+  transcription?: string;
+  image?: string;
+  level: ExplanationLevel;
+  mode: SolveMode;
+  // Earlier turns of the conversation, which change what a follow-up means.
+  context?: string;
+}
+
+// Counters cover the current page load; they are for the debug panel only.
+const stats: SolutionCacheStats = { hits: 0, misses: 0, writes: 0, evictions: 0, expired: 0 };
+const statsListeners = new Set<() => void>();
+
+const bump = (counter: keyof SolutionCacheStats, by = 1) => {
+  if (by === 0) return;
+  stats[counter] += by;
+  statsListeners.forEach(listener => listener());
+};
+
+export const getSolutionCacheStats = (): SolutionCacheStats => ({ ...stats });
+
+export const subscribeSolutionCacheStats = (listener: () => void) => {
+  statsListeners.add(listener);
+  return () => { statsListeners.delete(listener); };
+};
+
+export const resetSolutionCacheStats = () => {
+  (Object.keys(stats) as (keyof SolutionCacheStats)[]).forEach(counter => { stats[counter] = 0; });
+  statsListeners.forEach(listener => listener());
+};
+
+// cyrb53: used where crypto.subtle is missing (pages served over plain http from another host).
+const fallbackHash = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+export const hashContent = async (text: string): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Cache key of a solve: the problem text and transcription normalized the same
+ * way as the mock fixtures (so "Solve 2x + 5 = 15" and "solve 2x+5=15" match),
+ * a hash of the image bytes, the explanation level, the mode and a hash of the
+ * earlier turns. A follow-up like "now do it for x = 3" only hits the cache
+ * after the same conversation; a first question matches across sessions.
+ */
+export const solutionCacheKey = async ({ provider, input, transcription, image, level, mode, context }: SolutionCacheKeyParts) =>
+  [
+    provider, mode, level, normalizeProblemKey(input), normalizeProblemKey(transcription || ''),
+    image ? await hashContent(image) : '', context ? await hashContent(context) : ''
+  ].join('|');
+
+const isExpired = (entry: CachedSolution, now: number) => now - entry.createdAt > SOLUTION_CACHE_TTL_MS;
+
+export const getCachedSolution = async (key: string): Promise<SolveResponse | null> => {
+  const entry = await withStore<CachedSolution | undefined>(SOLUTION_CACHE_STORE, 'readonly', store => store.get(key));
+  const now = Date.now();
+  if (!entry) {
+    bump('misses');
+    return null;
+  }
+  if (isExpired(entry, now)) {
+    await withStore(SOLUTION_CACHE_STORE, 'readwrite', store => store.delete(key));
+    bump('expired');
+    bump('misses');
+    return null;
+  }
+  await withStore(SOLUTION_CACHE_STORE, 'readwrite', store => store.put({ ...entry, usedAt: now }));
+  bump('hits');
+  return entry.solution;
+};
+
+// Drops expired entries, then the least recently used ones until the cache fits.
+const evict = async (): Promise<{ evicted: number; expired: number }> => {
+  const db = await openDatabase();
+  const store = db.transaction(SOLUTION_CACHE_STORE, 'readwrite').objectStore(SOLUTION_CACHE_STORE);
+  const now = Date.now();
+
+  return new Promise((resolve, reject) => {
+    let evicted = 0;
+    let expired = 0;
+    let excess = 0;
+    const countRequest = store.count();
+    countRequest.onerror = () => reject(countRequest.error);
+    countRequest.onsuccess = () => {
+      excess = countRequest.result - SOLUTION_CACHE_MAX_ENTRIES;
+      // Opened from the callback so the transaction stays active throughout.
+      const request = store.index('usedAt').openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => onCursor(request);
+    };
+    const onCursor = (request: IDBRequest<IDBCursorWithValue | null>) => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ evicted, expired });
+        return;
+      }
+      const entry = cursor.value as CachedSolution;
+      if (isExpired(entry, now)) {
+        cursor.delete();
+        expired++;
+        excess--;
+      } else if (excess > 0) {
+        cursor.delete();
+        evicted++;
+        excess--;
+      }
+      cursor.continue();
+    };
+  });
+};
+
+export const cacheSolution = async (key: string, solution: SolveResponse): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedSolution = { key, solution, createdAt: now, usedAt: now };
+  await withStore(SOLUTION_CACHE_STORE, 'readwrite', store => store.put(entry));
+  bump('writes');
+  const { evicted, expired } = await evict();
+  bump('evictions', evicted);
+  bump('expired', expired);
+};
+
+export const countCachedSolutions = (): Promise<number> =>
+  withStore<number>(SOLUTION_CACHE_STORE, 'readonly', store => store.count());
+
+export const clearSolutionCache = async (): Promise<void> => {
+  await withStore(SOLUTION_CACHE_STORE, 'readwrite', store => store.clear());
+};
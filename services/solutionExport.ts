@@ -0,0 +1,337 @@
+import katex from "katex";
+import { ExplanationLevel, Message, MessageRole, SolveResponse, SolveStep } from "../types";
+import { dataUrlMimeType } from "./imagePreprocess";
+import { tokenizeMath } from "./mathMarkup";
+
+export type ExportFormat = 'tex' | 'markdown' | 'print';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'tex', label: 'LaTeX' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'print', label: 'PDF' }
+];
+
+// One solved problem together with the question that produced it.
+export interface ExportEntry {
+  question?: Message;
+  solution: SolveResponse;
+  level?: ExplanationLevel;
+  // Worksheet label such as "3b", used as the heading when present.
+  label?: string;
+}
+
+export interface ExportImage {
+  name: string;
+  dataUrl: string;
+}
+
+const headingFor = (entry: ExportEntry, index: number, total: number) =>
+  entry.label ? `Problem ${entry.label}` : total === 1 ? 'Problem' : `Problem ${index + 1}`;
+
+const imageExtension = (dataUrl: string) => {
+  const mime = dataUrlMimeType(dataUrl) || 'image/png';
+  return mime === 'image/jpeg' ? 'jpg' : mime.replace('image/', '');
+};
+
+export const exportFileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'solution';
+
+/**
+ * Pairs every solved reply in a session with the question before it.
+ */
+export const collectExportEntries = (messages: Message[]): ExportEntry[] =>
+  messages.flatMap((msg, idx) => {
+    if (msg.role !== MessageRole.ASSISTANT || !msg.metadata) return [];
+    return [{
+      question: messages.slice(0, idx).reverse().find(m => m.role === MessageRole.USER),
+      solution: msg.metadata,
+      level: msg.level,
+      label: msg.worksheet?.label
+    }];
+  });
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+const escapeLatex = (text: string) => text.replace(/[\\&%$#_{}~^]/g, ch => LATEX_ESCAPES[ch]);
+
+// equation, align and gather are display environments of their own and can't sit inside \[ \].
+const isStandaloneEnvironment = (tex: string) => /^\\begin\{(equation|align|alignat|gather)\*?\}/.test(tex);
+
+const latexText = (text: string) =>
+  tokenizeMath(text).map(s => !s.math ? escapeLatex(s.value)
+    : !s.display ? `$${s.value}$`
+    : isStandaloneEnvironment(s.value) ? s.value : `\\[ ${s.value} \\]`).join('');
+
+// Index of the first `=` outside braces that is not part of \leq, <=, \neq and the like.
+const relationIndex = (line: string) => {
+  let depth = 0;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (ch === '=' && depth === 0 && !/[<>!:\\]/.test(line[i - 1] || '')) return i;
+  }
+  return -1;
+};
+
+/**
+ * Turns a step's working into align* rows: each `\\` and each `\implies`
+ * starts a new row, and rows are aligned on their first `=`.
+ */
+export const stepToAlignRows = (math: string): string[] => {
+  const body = tokenizeMath(math)
+    .map(s => s.math ? s.value : s.value.trim() ? `\\text{${s.value.trim()}}` : '')
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\\(begin|end)\{(aligned|align\*?|gathered)\}/g, '');
+  return body
+    .split(/\\\\/)
+    .flatMap(line => line.split(/(?=\\implies)/))
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      if (line.includes('&')) return line;
+      const at = relationIndex(line);
+      return at === -1 ? `& ${line}` : `${line.slice(0, at).trim()} &${line.slice(at)}`;
+    });
+};
+
+const latexStep = (step: SolveStep, index: number) => {
+  const rows = step.math.trim() ? stepToAlignRows(step.math) : [];
+  return [
+    `\\subsection*{Step ${index + 1}: ${latexText(step.title)}}`,
+    latexText(step.explanation),
+    rows.length > 0 ? `\\begin{align*}\n  ${rows.join(' \\\\\n  ')}\n\\end{align*}` : ''
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * A standalone .tex document. LaTeX cannot embed images, so each problem image
+ * is referenced by file name and returned alongside the source to be saved next to it.
+ */
+export const toLatexDocument = (title: string, entries: ExportEntry[], imagePrefix = 'problem'): { source: string; images: ExportImage[] } => {
+  const images: ExportImage[] = [];
+  const sections = entries.map((entry, idx) => {
+    const { question, solution } = entry;
+    const parts = [`\\section*{${latexText(headingFor(entry, idx, entries.length))}}`];
+    if (question?.image) {
+      const name = `${imagePrefix}-${idx + 1}.${imageExtension(question.image)}`;
+      images.push({ name, dataUrl: question.image });
+      parts.push(`\\IfFileExists{${name}}{\\begin{center}\\includegraphics[width=0.6\\textwidth]{${name}}\\end{center}}{\\textit{Original image: ${escapeLatex(name)}}}`);
+    }
+    if (question?.transcription) parts.push(`\\[ ${question.transcription} \\]`);
+    if (question?.content) parts.push(`\\textit{${latexText(question.content)}}`);
+    parts.push(latexText(solution.description));
+    if (solution.concepts.length > 0) parts.push(`\\textbf{Concepts:} ${solution.concepts.map(latexText).join(', ')}`);
+    parts.push(...solution.steps.map(latexStep));
+    parts.push(`\\subsection*{Answer}\n${latexText(solution.finalAnswer)}`);
+    if (solution.tutoringTip) parts.push(`\\begin{quote}\n\\textbf{Tip.} ${latexText(solution.tutoringTip)}\n\\end{quote}`);
+    if (entry.level) parts.push(`{\\small Explained at the ${entry.level} level.}`);
+    return parts.join('\n\n');
+  });
+
+  const source = [
+    '\\documentclass[11pt]{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage{amsmath,amssymb}',
+    '\\usepackage{graphicx}',
+    '\\usepackage[margin=2.5cm]{geometry}',
+    '',
+    `\\title{${latexText(title)}}`,
+    `\\date{${new Date().toLocaleDateString()}}`,
+    '',
+    '\\begin{document}',
+    '\\maketitle',
+    '',
+    sections.join('\n\n\\bigskip\n\n'),
+    '',
+    '\\end{document}',
+    ''
+  ].join('\n');
+  return { source, images };
+};
+
+// Normalizes every delimiter to $...$ and $$...$$, which notes apps understand.
+const markdownText = (text: string) =>
+  tokenizeMath(text).map(s => !s.math ? s.value.replace(/\$/g, '\\$') : s.display ? `\n\n$$\n${s.value}\n$$\n\n` : `$${s.value}$`).join('').trim();
+
+const markdownMath = (math: string) => {
+  const segments = tokenizeMath(math.trim());
+  if (segments.length === 1 && segments[0].math) return `$$\n${segments[0].value}\n$$`;
+  return markdownText(math);
+};
+
+export const toMarkdown = (title: string, entries: ExportEntry[]): string => {
+  const sections = entries.map((entry, idx) => {
+    const { question, solution } = entry;
+    const heading = headingFor(entry, idx, entries.length);
+    const parts = [`## ${heading}`];
+    // Images travel inside the file, so the notes stay complete offline.
+    if (question?.image) parts.push(`![${heading}](${question.image})`);
+    if (question?.transcription) parts.push(`$$\n${question.transcription}\n$$`);
+    if (question?.content) parts.push(`*${question.content.trim()}*`);
+    parts.push(markdownText(solution.description));
+    if (solution.concepts.length > 0) parts.push(`**Concepts:** ${solution.concepts.join(', ')}`);
+    solution.steps.forEach((step, stepIdx) => {
+      parts.push(`### Step ${stepIdx + 1}: ${markdownText(step.title)}`);
+      parts.push(markdownText(step.explanation));
+      if (step.math.trim()) parts.push(markdownMath(step.math));
+    });
+    parts.push(`**Answer:** ${markdownText(solution.finalAnswer)}`);
+    if (solution.tutoringTip) parts.push(`> **Tip:** ${markdownText(solution.tutoringTip).replace(/\n/g, '\n> ')}`);
+    if (entry.level) parts.push(`<sub>Explained at the ${entry.level} level.</sub>`);
+    return parts.filter(Boolean).join('\n\n');
+  });
+  return `# ${title}\n\n${sections.join('\n\n---\n\n')}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const renderTex = (tex: string, displayMode: boolean) =>
+  katex.renderToString(tex, { displayMode, throwOnError: false });
+
+const htmlText = (text: string) =>
+  tokenizeMath(text).map(s => s.math ? renderTex(s.value, s.display) : escapeHtml(s.value)).join('');
+
+const htmlMath = (math: string) => {
+  const segments = tokenizeMath(math.trim());
+  if (segments.length === 1 && segments[0].math) return renderTex(segments[0].value, true);
+  return htmlText(math);
+};
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; line-height: 1.55; font-size: 11pt; margin: 0; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; letter-spacing: -0.02em; }
+  .meta { color: #64748b; font-size: 9pt; margin-bottom: 18pt; }
+  .problem { break-inside: avoid-page; padding-bottom: 14pt; margin-bottom: 14pt; border-bottom: 1px solid #e2e8f0; }
+  .problem + .problem { break-before: page; }
+  h2 { font-size: 14pt; color: #4338ca; margin: 0 0 8pt; }
+  h3 { font-size: 10pt; margin: 12pt 0 2pt; }
+  .image { display: block; max-width: 70%; max-height: 70mm; margin: 6pt auto 10pt; border: 1px solid #e2e8f0; border-radius: 6pt; }
+  .question { font-style: italic; color: #475569; }
+  .concepts { font-size: 9pt; color: #4f46e5; }
+  .step { break-inside: avoid; }
+  .step p { margin: 0 0 4pt; color: #475569; }
+  .answer { margin-top: 12pt; padding: 8pt 12pt; border: 1.5pt solid #0f172a; border-radius: 6pt; font-weight: 700; break-inside: avoid; }
+  .tip { margin-top: 10pt; padding: 8pt 12pt; background: #fffbeb; border-left: 3pt solid #f59e0b; font-style: italic; color: #92400e; break-inside: avoid; }
+  .level { margin-top: 8pt; font-size: 8pt; color: #94a3b8; text-transform: uppercase; letter-spacing: 0.1em; }
+  .katex-display { margin: 6pt 0; }
+  @media print { .tip { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`;
+
+// KaTeX's stylesheet and fonts are whatever the app already loaded, so printing needs no network.
+const documentStyles = () =>
+  Array.from(document.querySelectorAll<HTMLLinkElement | HTMLStyleElement>('link[rel="stylesheet"], style'))
+    .map(el => el instanceof HTMLLinkElement ? `<link rel="stylesheet" href="${escapeHtml(el.href)}">` : `<style>${el.textContent || ''}</style>`)
+    .join('\n');
+
+export const toPrintHtml = (title: string, entries: ExportEntry[]): string => {
+  const sections = entries.map((entry, idx) => {
+    const { question, solution } = entry;
+    const heading = headingFor(entry, idx, entries.length);
+    return `<section class="problem">
+  <h2>${escapeHtml(heading)}</h2>
+  ${question?.image ? `<img class="image" src="${escapeHtml(question.image)}" alt="${escapeHtml(heading)}">` : ''}
+  ${question?.transcription ? renderTex(question.transcription, true) : ''}
+  ${question?.content ? `<p class="question">${escapeHtml(question.content)}</p>` : ''}
+  <p>${htmlText(solution.description)}</p>
+  ${solution.concepts.length > 0 ? `<p class="concepts">${solution.concepts.map(escapeHtml).join(' · ')}</p>` : ''}
+  ${solution.steps.map((step, stepIdx) => `<div class="step">
+    <h3>${stepIdx + 1}. ${htmlText(step.title)}</h3>
+    <p>${htmlText(step.explanation)}</p>
+    ${step.math.trim() ? htmlMath(step.math) : ''}
+  </div>`).join('\n')}
+  <div class="answer">Answer: ${htmlText(solution.finalAnswer)}</div>
+  ${solution.tutoringTip ? `<div class="tip">${htmlText(solution.tutoringTip)}</div>` : ''}
+  ${entry.level ? `<div class="level">${escapeHtml(entry.level)} explanation</div>` : ''}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+${documentStyles()}
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">DB MATHSOLVER.AI · ${escapeHtml(new Date().toLocaleString())}</div>
+${sections.join('\n')}
+</body>
+</html>`;
+};
+
+export const downloadFile = (name: string, content: Blob | string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${type};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Prints an HTML document from a hidden frame, so the browser's own
+ * "Save as PDF" produces the file without leaving the app.
+ */
+export const printHtml = (html: string): Promise<void> =>
+  new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    // No scripts inside the document; same origin only so the fonts can be awaited and print called from here.
+    frame.setAttribute('sandbox', 'allow-same-origin allow-modals');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden';
+    frame.onload = async () => {
+      const win = frame.contentWindow!;
+      // Wait for the KaTeX fonts, or the first page can print with fallback glyphs.
+      await win.document.fonts?.ready.catch(() => undefined);
+      win.focus();
+      win.print();
+      // print() blocks in most browsers; removing the frame right away cancels it in the rest.
+      setTimeout(() => frame.remove(), 1000);
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+export const exportSolutions = async (format: ExportFormat, title: string, entries: ExportEntry[]) => {
+  if (entries.length === 0) return;
+  const slug = exportFileSlug(title);
+  switch (format) {
+    case 'tex': {
+      const { source, images } = toLatexDocument(title, entries, `${slug}-problem`);
+      downloadFile(`${slug}.tex`, source, 'application/x-tex');
+      for (const image of images) {
+        downloadFile(image.name, await (await fetch(image.dataUrl)).blob());
+      }
+      return;
+    }
+    case 'markdown':
+      downloadFile(`${slug}.md`, toMarkdown(title, entries), 'text/markdown');
+      return;
+    case 'print':
+      await printHtml(toPrintHtml(title, entries));
+      return;
+  }
+};
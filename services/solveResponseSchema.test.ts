@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseSolveResponse, truncatedRequiredField } from './solveResponseSchema';
+
+const reply = JSON.stringify({
+  description: "Solve $2x + 5 = 15$.",
+  concepts: ["Linear Equations"],
+  steps: [
+    { title: "Subtract 5", explanation: "Remove the constant.", math: "$$2x = 10$$" },
+    { title: "Divide by 2", explanation: "Isolate $x$.", math: "$$x = 5$$", hint: "Undo the multiplication." }
+  ],
+  finalAnswer: "$x = 5$",
+  tutoringTip: "Undo operations in reverse order."
+});
+
+// The reply cut off just before `marker` (or partway into it, with `keep` characters of it).
+const cutAt = (marker: string, keep = 0) => reply.slice(0, reply.indexOf(marker) + keep);
+
+describe('parseSolveResponse', () => {
+  it('repairs a reply cut off in an optional field', () => {
+    const result = parseSolveResponse(cutAt('reverse order'));
+    expect(result).toMatchObject({ ok: true, repaired: true, data: { finalAnswer: '$x = 5$' } });
+  });
+
+  it('does not close a cut-off final answer', () => {
+    const result = parseSolveResponse(cutAt('$x = 5$"', 4));
+    expect(result).toMatchObject({ ok: false, error: { kind: 'malformed_json' } });
+  });
+
+  it('does not close a step cut off before its math is complete', () => {
+    expect(parseSolveResponse(cutAt('$$x = 5$$', 5))).toMatchObject({ ok: false, error: { kind: 'malformed_json' } });
+    expect(parseSolveResponse(cutAt('Isolate'))).toMatchObject({ ok: false, error: { kind: 'malformed_json' } });
+  });
+});
+
+describe('truncatedRequiredField', () => {
+  it('names the field the reply ends in', () => {
+    expect(truncatedRequiredField(cutAt('$x = 5$"', 4))).toBe('finalAnswer');
+    expect(truncatedRequiredField(cutAt('$$x = 5$$', 5))).toBe('steps[1].math');
+    expect(truncatedRequiredField(cutAt('"finalAnswer"', 14))).toBe('finalAnswer');
+    expect(truncatedRequiredField(cutAt('Undo the'))).toBeNull();
+    expect(truncatedRequiredField(cutAt('reverse order'))).toBeNull();
+    expect(truncatedRequiredField(reply)).toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+import { SolveError, SolveResponse, SolveResult } from "../types";
+import { readGraphSpec } from "./graphPlot";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+};
+
+/**
+ * Removes Markdown code fences and any chatter around the outermost JSON object.
+ */
+export const stripJsonWrapper = (text: string): string => {
+  let body = text.trim();
+  const fenced = body.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  if (fenced) body = fenced[1].trim();
+  const start = body.indexOf('{');
+  if (start > 0) body = body.slice(start);
+  return body;
+};
+
+// An open object or array while scanning JSON. For objects, `key` is the
+// member being written, `value` how far its value has got and `complete` the
+// members already written; for arrays, `index` is the element being written.
+interface Container {
+  open: '{' | '[';
+  key: string | null;
+  value: 'none' | 'open' | 'done';
+  complete: string[];
+  index: number;
+}
+
+const closersFor = (stack: Container[]) =>
+  stack.slice().reverse().map(({ open }) => open === '{' ? '}' : ']').join('');
+
+/**
+ * Walks possibly truncated JSON, recording where it could be cut back to and
+ * the containers still open when the text ended.
+ */
+const scanJson = (text: string) => {
+  const stack: Container[] = [];
+  const cutPoints: { index: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1;
+
+  const finishValue = (container: Container) => {
+    container.value = 'done';
+    if (container.key !== null) container.complete.push(container.key);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const top = stack[stack.length - 1];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (keyStart !== -1) {
+          try {
+            top.key = JSON.parse(text.slice(keyStart, i + 1));
+          } catch {
+            top.key = null;
+          }
+          top.value = 'none';
+          keyStart = -1;
+        } else if (top?.open === '{') {
+          finishValue(top);
+        }
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      if (top?.open === '{' && top.key === null) keyStart = i;
+      else if (top?.open === '{') top.value = 'open';
+    } else if (ch === '{' || ch === '[') {
+      if (top?.open === '{') finishValue(top);
+      stack.push({ open: ch, key: null, value: 'none', complete: [], index: 0 });
+      cutPoints.push({ index: i + 1, closers: closersFor(stack) });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      cutPoints.push({ index: i + 1, closers: closersFor(stack) });
+    } else if (ch === ',') {
+      if (top?.open === '{') top.key = null;
+      else if (top) top.index++;
+      cutPoints.push({ index: i, closers: closersFor(stack) });
+    } else if (top?.open === '{' && top.key !== null && top.value === 'none' && !/[\s:]/.test(ch)) {
+      finishValue(top);
+    }
+  }
+
+  return { stack, cutPoints, inString, escaped };
+};
+
+/**
+ * Names the required field a truncated reply was cut off inside: the
+ * `finalAnswer`, or the `math` of a step that ended before its math did.
+ * Closing such a field would pass off half an answer as a whole one.
+ */
+export const truncatedRequiredField = (text: string): string | null => {
+  const [root, steps, step] = scanJson(text).stack;
+  if (!root || root.open !== '{') return null;
+  if (!steps && root.key === 'finalAnswer' && root.value !== 'done') return 'finalAnswer';
+  if (root.key === 'steps' && steps?.open === '[' && step?.open === '{' && !step.complete.includes('math')) {
+    return `steps[${steps.index}].math`;
+  }
+  return null;
+};
+
+/**
+ * Attempts to turn a truncated JSON document into a parseable one by cutting
+ * back to the last complete value and closing every open container.
+ */
+export const closeTruncatedJson = (text: string): unknown => {
+  const { stack, cutPoints, inString, escaped } = scanJson(text);
+
+  // The cheapest repair first: finish an open string and close the containers.
+  const candidates = [
+    text + (inString ? (escaped ? '\\"' : '"') : '') + closersFor(stack),
+    ...cutPoints.reverse().map(({ index, closers }) => text.slice(0, index) + closers)
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Keep cutting back.
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Fills in defects that do not change the meaning of a solution: missing step
+ * math or titles, a single concept given as a string, numeric answers, graph
+ * parts that cannot be plotted.
+ */
+const repairShape = (value: Record<string, unknown>): { value: Record<string, unknown>; repaired: boolean } => {
+  let repaired = false;
+  const result: Record<string, unknown> = { ...value };
+
+  if (typeof result.concepts === 'string') {
+    result.concepts = [result.concepts];
+    repaired = true;
+  } else if (result.concepts === undefined) {
+    result.concepts = [];
+    repaired = true;
+  } else if (Array.isArray(result.concepts) && result.concepts.some(c => typeof c !== 'string')) {
+    result.concepts = result.concepts.map(asText).filter((c): c is string => !!c);
+    repaired = true;
+  }
+
+  if (Array.isArray(result.steps)) {
+    result.steps = result.steps.filter(isRecord).map((step, idx) => {
+      const title = asText(step.title);
+      const explanation = asText(step.explanation);
+      const math = asText(step.math);
+      if ([step.title, step.explanation, step.math].some(field => typeof field !== 'string')) repaired = true;
+      return {
+        title: title ?? `Step ${idx + 1}`,
+        explanation: explanation ?? '',
+        math: math ?? '',
+        ...(typeof step.hint === 'string' ? { hint: step.hint } : {})
+      };
+    });
+    if ((result.steps as unknown[]).length !== (value.steps as unknown[]).length) repaired = true;
+  }
+
+  if (typeof result.finalAnswer === 'number') {
+    result.finalAnswer = String(result.finalAnswer);
+    repaired = true;
+  }
+
+  if (result.tutoringTip !== undefined && typeof result.tutoringTip !== 'string') {
+    delete result.tutoringTip;
+    repaired = true;
+  }
+
+  if (result.graph !== undefined) {
+    const { graph, repaired: graphRepaired } = readGraphSpec(result.graph);
+    if (graph) result.graph = graph;
+    else delete result.graph;
+    if (graphRepaired) repaired = true;
+  }
+
+  return { value: result, repaired };
+};
+
+/**
+ * Checks that a value has every required `SolveResponse` field with the right type.
+ * Returns the list of problems, empty when the value is valid.
+ */
+export const findSchemaIssues = (value: unknown): string[] => {
+  if (!isRecord(value)) return ["response is not a JSON object"];
+  const issues: string[] = [];
+
+  if (typeof value.description !== 'string') issues.push("'description' must be a string");
+  if (!Array.isArray(value.concepts) || value.concepts.some(c => typeof c !== 'string')) {
+    issues.push("'concepts' must be an array of strings");
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    issues.push("'steps' must be a non-empty array");
+  } else {
+    value.steps.forEach((step, idx) => {
+      if (!isRecord(step)) {
+        issues.push(`steps[${idx}] must be an object`);
+        return;
+      }
+      (['title', 'explanation', 'math'] as const).forEach(key => {
+        if (typeof step[key] !== 'string') issues.push(`steps[${idx}].${key} must be a string`);
+      });
+    });
+  }
+  if (typeof value.finalAnswer !== 'string' || !value.finalAnswer.trim()) {
+    issues.push("'finalAnswer' must be a non-empty string");
+  }
+  if (value.tutoringTip !== undefined && typeof value.tutoringTip !== 'string') {
+    issues.push("'tutoringTip' must be a string when present");
+  }
+  if (value.graph !== undefined && (!isRecord(value.graph) || !Array.isArray(value.graph.functions))) {
+    issues.push("'graph' must be an object with a 'functions' array when present");
+  }
+
+  return issues;
+};
+
+export const solveFailure = (kind: SolveError['kind'], message: string, issues: string[], raw?: string): SolveResult => ({
+  ok: false,
+  error: { kind, message, issues, raw }
+});
+
+/**
+ * Validates an already-parsed value, repairing harmless defects along the way.
+ */
+export const validateSolveResponse = (value: unknown, raw?: string): SolveResult => {
+  if (!isRecord(value)) {
+    return solveFailure('invalid_schema', "The solver returned something other than a solution.", ["response is not a JSON object"], raw);
+  }
+  const { value: candidate, repaired } = repairShape(value);
+  const issues = findSchemaIssues(candidate);
+  if (issues.length > 0) {
+    return solveFailure('invalid_schema', "The solver's answer was missing required parts.", issues, raw);
+  }
+  return { ok: true, data: candidate as unknown as SolveResponse, repaired };
+};
+
+/**
+ * Parses raw model output into a `SolveResponse`, repairing code fences,
+ * truncation and minor shape defects where possible.
+ */
+export const parseSolveResponse = (text: string | undefined): SolveResult => {
+  if (!text || !text.trim()) {
+    return solveFailure('empty_response', "The solver returned an empty reply.", ["response was empty"], text);
+  }
+
+  const body = stripJsonWrapper(text);
+  let parsed: unknown;
+  let repaired = body !== text.trim();
+
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Sent back for the corrective retry rather than repaired.
+    const cutField = truncatedRequiredField(body);
+    if (cutField) {
+      return solveFailure('malformed_json', "The solver's reply was cut off.", [`response ends partway through '${cutField}'`], text);
+    }
+    parsed = closeTruncatedJson(body);
+    repaired = true;
+  }
+
+  if (parsed === undefined) {
+    return solveFailure('malformed_json', "The solver's reply could not be read.", ["response is not valid JSON"], text);
+  }
+
+  const result = validateSolveResponse(parsed, text);
+  return result.ok ? { ...result, repaired: result.repaired || repaired } : result;
+};
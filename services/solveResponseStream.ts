@@ -0,0 +1,93 @@
+import { PartialSolveResponse, SolveStep } from "../types";
+
+const closersFor = (stack: string[]) =>
+  stack.slice().reverse().map(open => open === '{' ? '}' : ']').join('');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toPartial = (value: unknown): PartialSolveResponse => {
+  const partial: PartialSolveResponse = { steps: [] };
+  if (!isRecord(value)) return partial;
+
+  if (typeof value.description === 'string') partial.description = value.description;
+  if (Array.isArray(value.concepts)) {
+    partial.concepts = value.concepts.filter((c): c is string => typeof c === 'string');
+  }
+  if (Array.isArray(value.steps)) {
+    partial.steps = value.steps.filter(isRecord).map((step, idx): SolveStep => ({
+      title: typeof step.title === 'string' ? step.title : `Step ${idx + 1}`,
+      explanation: typeof step.explanation === 'string' ? step.explanation : '',
+      math: typeof step.math === 'string' ? step.math : ''
+    }));
+  }
+  if (typeof value.finalAnswer === 'string') partial.finalAnswer = value.finalAnswer;
+  if (typeof value.tutoringTip === 'string') partial.tutoringTip = value.tutoringTip;
+  return partial;
+};
+
+/**
+ * Incrementally scans streamed `SolveResponse` JSON and exposes every section
+ * that has fully arrived. Snapshots are only taken at boundaries of top-level
+ * fields and of whole array items, so a half-written string or step never
+ * reaches the UI.
+ */
+export class SolveResponseStreamParser {
+  private text = '';
+  private position = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private lastCut = 0;
+  private snapshot: PartialSolveResponse = { steps: [] };
+
+  get rawText() {
+    return this.text;
+  }
+
+  get current(): PartialSolveResponse {
+    return this.snapshot;
+  }
+
+  /**
+   * Appends a chunk and returns the latest snapshot, or null when the chunk
+   * did not complete any new section.
+   */
+  push(chunk: string): PartialSolveResponse | null {
+    this.text += chunk;
+    let cut: { index: number; closers: string } | null = null;
+
+    for (; this.position < this.text.length; this.position++) {
+      const ch = this.text[this.position];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        this.stack.push(ch);
+        if (this.stack.length <= 2) cut = { index: this.position + 1, closers: closersFor(this.stack) };
+      } else if (ch === '}' || ch === ']') {
+        this.stack.pop();
+        if (this.stack.length <= 2) cut = { index: this.position + 1, closers: closersFor(this.stack) };
+      } else if (ch === ',' && this.stack.length <= 2) {
+        cut = { index: this.position, closers: closersFor(this.stack) };
+      }
+    }
+
+    if (!cut || cut.index <= this.lastCut) return null;
+
+    try {
+      const value = JSON.parse(this.text.slice(0, cut.index) + cut.closers);
+      this.lastCut = cut.index;
+      this.snapshot = toPartial(value);
+      return this.snapshot;
+    } catch {
+      // Leading chatter or code fences; the final parse will deal with those.
+      return null;
+    }
+  }
+}
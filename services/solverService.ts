@@ -0,0 +1,77 @@
+import { ExplanationLevel, Message, PracticeProblem, SolveMode, SolveOptions, SolveResponse, SolveResult, SolverProvider, WorksheetProblem } from "../types";
+import { loadSolverConfig, SolverConfig } from "./config";
+import { historyFingerprint } from "./conversationContext";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockSolverProvider";
+import { cacheSolution, getCachedSolution, solutionCacheKey } from "./solutionCache";
+
+export const createSolverProvider = (config: SolverConfig): SolverProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider({ latencyMs: config.mockLatencyMs });
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+  }
+};
+
+let activeProvider: SolverProvider | null = null;
+
+export const getSolverProvider = (): SolverProvider => {
+  if (!activeProvider) activeProvider = createSolverProvider(loadSolverConfig());
+  return activeProvider;
+};
+
+// Lets development tooling and tests swap the backend without touching the environment.
+export const setSolverProvider = (provider: SolverProvider | null) => {
+  activeProvider = provider;
+};
+
+// The mock provider answers from local fixtures, so only real backends need a connection.
+export const solverNeedsNetwork = () => getSolverProvider().name !== 'mock';
+
+/**
+ * Solves through the active provider, answering repeats from the local
+ * solution cache. `force` skips the lookup (the fresh answer still replaces the
+ * cached one). The cache is best effort: if storage fails the solve goes ahead.
+ */
+export const solveMathProblem = async (
+  input: string,
+  level: ExplanationLevel = 'standard',
+  image?: string,
+  history: Message[] = [],
+  { mode = 'solve', transcription, guidance, force = false, ...options }: SolveOptions & { mode?: SolveMode; transcription?: string; guidance?: string; force?: boolean } = {}
+): Promise<SolveResult> => {
+  const provider = getSolverProvider();
+  const context = historyFingerprint(history);
+  const key = await solutionCacheKey({ provider: provider.name, input, transcription, image, level, mode, context }).catch(() => null);
+
+  if (key && !force) {
+    const cached = await getCachedSolution(key).catch(err => {
+      console.error("Solution cache read error:", err);
+      return null;
+    });
+    if (cached) return { ok: true, data: cached, repaired: false, cached: true };
+  }
+
+  const result = await provider.solve({ input, level, image, history, mode, transcription, guidance }, options);
+  if (key && result.ok) {
+    cacheSolution(key, result.data).catch(err => console.error("Solution cache write error:", err));
+  }
+  return result;
+};
+
+export const PRACTICE_SET_SIZE = 5;
+
+export const generatePracticeProblems = (
+  source: SolveResponse,
+  level: ExplanationLevel = 'standard',
+  count = PRACTICE_SET_SIZE
+): Promise<PracticeProblem[]> => getSolverProvider().generatePractice({ source, level, count });
+
+export const transcribeMath = (image: string): Promise<string> => getSolverProvider().transcribeMath(image);
+
+// Problems solved at the same time when batch-solving a worksheet.
+export const WORKSHEET_CONCURRENCY = 3;
+
+export const enumerateWorksheetProblems = (image: string): Promise<WorksheetProblem[]> =>
+  getSolverProvider().enumerateProblems(image);
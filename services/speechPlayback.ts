@@ -0,0 +1,68 @@
+import { SpeechSettings } from "../types";
+
+const SPEECH_SETTINGS_KEY = 'math_solver_speech';
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const DEFAULT_SETTINGS: SpeechSettings = { lang: 'en-US', rate: 1 };
+
+export const speechSupported = () => 'speechSynthesis' in window;
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SPEECH_SETTINGS_KEY) || 'null');
+    if (!stored || typeof stored.lang !== 'string') return DEFAULT_SETTINGS;
+    return {
+      lang: stored.lang,
+      voiceURI: typeof stored.voiceURI === 'string' ? stored.voiceURI : undefined,
+      rate: SPEECH_RATES.includes(stored.rate) ? stored.rate : DEFAULT_SETTINGS.rate
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SPEECH_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Some platforms report "en_US"; the rest of the app uses BCP 47's "en-US".
+const normalizeLang = (lang: string) => lang.replace('_', '-');
+
+/** Languages that have at least one installed voice, sorted by tag. */
+export const voiceLanguages = (voices: SpeechSynthesisVoice[]): string[] =>
+  [...new Set(voices.map(v => normalizeLang(v.lang)))].sort();
+
+/** Voices for `lang`: those for exactly that tag first, then other regions of the same language. */
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice[] => {
+  const primary = lang.split('-')[0].toLowerCase();
+  const matching = voices.filter(v => normalizeLang(v.lang).split('-')[0].toLowerCase() === primary);
+  return [
+    ...matching.filter(v => normalizeLang(v.lang) === lang),
+    ...matching.filter(v => normalizeLang(v.lang) !== lang)
+  ];
+};
+
+/**
+ * Speaks `text` with the chosen voice, replacing anything already being
+ * spoken. `onDone` runs when it finishes on its own, not when it is cancelled.
+ */
+export const speakText = (text: string, settings: SpeechSettings, onDone: () => void): SpeechSynthesisUtterance => {
+  const synth = window.speechSynthesis;
+  synth.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voices = voicesForLanguage(synth.getVoices(), settings.lang);
+  utterance.voice = voices.find(v => v.voiceURI === settings.voiceURI) || voices[0] || null;
+  utterance.lang = settings.lang;
+  utterance.rate = settings.rate;
+  utterance.onend = onDone;
+  synth.speak(utterance);
+  // A synthesizer left paused keeps new utterances queued until it is resumed.
+  if (synth.paused) synth.resume();
+  return utterance;
+};
+
+export const stopSpeaking = (utterance?: SpeechSynthesisUtterance) => {
+  if (utterance) utterance.onend = null;
+  window.speechSynthesis.cancel();
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { spokenToLatex } from './spokenMath';
+
+describe('spokenToLatex', () => {
+  it.each([
+    ['x squared plus three x minus four equals zero', '$x^{2} + 3x - 4 = 0$'],
+    ['integral from zero to pi of sine x dx', '$\\int_{0}^{\\pi} \\sin x \\, dx$'],
+    ['twenty one plus three hundred and five', '$21 + 305$'],
+    ['one hundred and twenty three', '123'],
+    ['one half plus one third', '$\\frac{1}{2} + \\frac{1}{3}$'],
+    ['three quarters x plus 1 half', '$\\frac{3}{4} x + \\frac{1}{2}$'],
+    ['x to the third power', '$x^{3}$']
+  ])('converts "%s"', (spoken, tex) => {
+    expect(spokenToLatex(spoken)).toBe(tex);
+  });
+
+  it('keeps the words around the math', () => {
+    expect(spokenToLatex('solve x squared equals nine')).toBe('solve $x^{2} = 9$');
+  });
+
+  it('leaves separate numbers joined by "and" apart', () => {
+    expect(spokenToLatex('two and three')).toBe('2 and 3');
+  });
+});
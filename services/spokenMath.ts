@@ -0,0 +1,497 @@
+/**
+ * Turns dictated math into LaTeX: "x squared plus three x minus four equals
+ * zero" becomes "$x^{2} + 3x - 4 = 0$". Words that are not math stay as
+ * prose around the converted runs, so "solve x squared equals nine" keeps its
+ * "solve". English only.
+ */
+
+type Keyword =
+  | 'squared' | 'cubed' | 'power' | 'sub' | 'factorial' | 'prime' | 'degrees' | 'percent' | 'over'
+  | 'sqrt' | 'cbrt' | 'abs' | 'integral' | 'sum' | 'limit' | 'derivative' | 'negative'
+  | 'from' | 'to' | 'of' | 'as' | 'approaches' | 'base' | 'wrt' | 'the' | 'open' | 'close';
+
+type Token =
+  | { kind: 'number'; value: string; word: string }
+  | { kind: 'variable'; tex: string; word: string }
+  | { kind: 'operator'; tex: string; relation: boolean; word: string }
+  | { kind: 'function'; tex: string; word: string }
+  | { kind: 'differential'; variable: string; word: string }
+  | { kind: 'keyword'; name: Keyword; word: string }
+  | { kind: 'word'; word: string };
+
+type TokenFactory = (word: string) => Token;
+
+const keyword = (name: Keyword): TokenFactory => word => ({ kind: 'keyword', name, word });
+const operator = (tex: string, relation = false): TokenFactory => word => ({ kind: 'operator', tex, relation, word });
+const fn = (tex: string): TokenFactory => word => ({ kind: 'function', tex, word });
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda',
+  'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega'
+];
+
+// Multi-word phrases are matched longest first.
+const PHRASES: [string, TokenFactory][] = [
+  ['is less than or equal to', operator('\\le', true)],
+  ['less than or equal to', operator('\\le', true)],
+  ['is greater than or equal to', operator('\\ge', true)],
+  ['greater than or equal to', operator('\\ge', true)],
+  ['is not equal to', operator('\\ne', true)],
+  ['not equal to', operator('\\ne', true)],
+  ['does not equal', operator('\\ne', true)],
+  ['is equal to', operator('=', true)],
+  ['equal to', operator('=', true)],
+  ['equals', operator('=', true)],
+  ['equal', operator('=', true)],
+  ['is less than', operator('<', true)],
+  ['less than', operator('<', true)],
+  ['is greater than', operator('>', true)],
+  ['greater than', operator('>', true)],
+  ['plus or minus', operator('\\pm')],
+  ['plus', operator('+')],
+  ['minus', operator('-')],
+  ['times', operator('\\cdot')],
+  ['multiplied by', operator('\\cdot')],
+  ['divided by', keyword('over')],
+  ['over', keyword('over')],
+  ['negative', keyword('negative')],
+  ['squared', keyword('squared')],
+  ['cubed', keyword('cubed')],
+  ['raised to the power of', keyword('power')],
+  ['to the power of', keyword('power')],
+  ['raised to the', keyword('power')],
+  ['raised to', keyword('power')],
+  ['to the', keyword('power')],
+  ['subscript', keyword('sub')],
+  ['sub', keyword('sub')],
+  ['factorial', keyword('factorial')],
+  ['prime', keyword('prime')],
+  ['degrees', keyword('degrees')],
+  ['percent', keyword('percent')],
+  ['square root of', keyword('sqrt')],
+  ['square root', keyword('sqrt')],
+  ['cube root of', keyword('cbrt')],
+  ['cube root', keyword('cbrt')],
+  ['absolute value of', keyword('abs')],
+  ['definite integral', keyword('integral')],
+  ['integral of', keyword('integral')],
+  ['integral', keyword('integral')],
+  ['summation', keyword('sum')],
+  ['sum', keyword('sum')],
+  ['limit', keyword('limit')],
+  ['derivative', keyword('derivative')],
+  ['with respect to', keyword('wrt')],
+  ['goes to', keyword('approaches')],
+  ['tends to', keyword('approaches')],
+  ['approaches', keyword('approaches')],
+  ['from', keyword('from')],
+  ['to', keyword('to')],
+  ['of', keyword('of')],
+  ['as', keyword('as')],
+  ['base', keyword('base')],
+  ['the', keyword('the')],
+  ['open bracket', keyword('open')],
+  ['open parenthesis', keyword('open')],
+  ['open paren', keyword('open')],
+  ['left bracket', keyword('open')],
+  ['left parenthesis', keyword('open')],
+  ['close bracket', keyword('close')],
+  ['close parenthesis', keyword('close')],
+  ['close paren', keyword('close')],
+  ['right bracket', keyword('close')],
+  ['right parenthesis', keyword('close')],
+  ['inverse sine', fn('\\sin^{-1}')],
+  ['inverse cosine', fn('\\cos^{-1}')],
+  ['inverse tangent', fn('\\tan^{-1}')],
+  ['arc sine', fn('\\arcsin')],
+  ['arc cosine', fn('\\arccos')],
+  ['arc tangent', fn('\\arctan')],
+  ['natural logarithm of', fn('\\ln')],
+  ['natural logarithm', fn('\\ln')],
+  ['natural log of', fn('\\ln')],
+  ['natural log', fn('\\ln')],
+  ['ln', fn('\\ln')],
+  ['logarithm', fn('\\log')],
+  ['log', fn('\\log')],
+  ['sine', fn('\\sin')],
+  ['sin', fn('\\sin')],
+  ['cosine', fn('\\cos')],
+  ['cos', fn('\\cos')],
+  ['tangent', fn('\\tan')],
+  ['tan', fn('\\tan')],
+  ['secant', fn('\\sec')],
+  ['cosecant', fn('\\csc')],
+  ['cotangent', fn('\\cot')],
+  ['infinity', word => ({ kind: 'variable', tex: '\\infty', word })],
+  ...GREEK.map((name): [string, TokenFactory] => [name, word => ({ kind: 'variable', tex: `\\${name}`, word })])
+];
+
+const PHRASE_TABLE = PHRASES
+  .map(([phrase, make]) => ({ words: phrase.split(' '), make }))
+  .sort((a, b) => b.words.length - a.words.length);
+
+const SYMBOLS: Record<string, TokenFactory> = {
+  '+': operator('+'),
+  '-': operator('-'),
+  '*': operator('\\cdot'),
+  '=': operator('=', true),
+  '<': operator('<', true),
+  '>': operator('>', true),
+  '<=': operator('\\le', true),
+  '>=': operator('\\ge', true),
+  '!=': operator('\\ne', true),
+  '/': keyword('over'),
+  '^': keyword('power'),
+  '!': keyword('factorial'),
+  '(': keyword('open'),
+  ')': keyword('close')
+};
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1e6 };
+const ORDINALS: Record<string, string> = {
+  first: '1', second: '2', third: '3', fourth: '4', fifth: '5', sixth: '6', seventh: '7', eighth: '8', ninth: '9', tenth: '10', nth: 'n'
+};
+
+// "one half", "two thirds": a whole number followed by one of these is a fraction.
+const DENOMINATORS: Record<string, string> = {
+  half: '2', halves: '2', third: '3', thirds: '3', quarter: '4', quarters: '4', fourth: '4', fourths: '4',
+  fifth: '5', fifths: '5', sixth: '6', sixths: '6', seventh: '7', sevenths: '7', eighth: '8', eighths: '8',
+  ninth: '9', ninths: '9', tenth: '10', tenths: '10'
+};
+
+// Recognizers already write some symbols; these are the ones that need words.
+const UNICODE: [RegExp, string][] = [
+  [/²/g, ' squared '], [/³/g, ' cubed '], [/[−–]/g, '-'], [/×/g, ' times '], [/÷/g, ' divided by '],
+  [/π/g, ' pi '], [/√/g, ' square root of '], [/∞/g, ' infinity '], [/≤/g, '<='], [/≥/g, '>='], [/≠/g, '!=']
+];
+
+const isNumberWord = (word: string) => UNITS.includes(word) || (word !== '' && TENS.includes(word)) || word in SCALES;
+
+// "twenty five" → 25, "three hundred and five" → 305, "three point one four" → 3.14. Returns the words it used.
+const readNumberWords = (words: string[], start: number): { value: string; length: number } | null => {
+  let total = 0;
+  let current = 0;
+  let i = start;
+  let used = false;
+  while (i < words.length) {
+    // The "and" of "hundred and five" belongs to the number; "two and three" stays two numbers.
+    if (words[i] === 'and' && (total + current) % 100 === 0 && total + current >= 100
+      && words[i + 1] !== 'zero' && (UNITS.includes(words[i + 1]) || TENS.includes(words[i + 1]))) {
+      i++;
+      continue;
+    }
+    if (!isNumberWord(words[i])) break;
+    const word = words[i];
+    if (word in SCALES) {
+      if (!used) break;
+      current = (current || 1) * SCALES[word];
+      if (SCALES[word] >= 1000) {
+        total += current;
+        current = 0;
+      }
+    } else if (UNITS.includes(word)) {
+      // "two three" is two numbers; "twenty three" and "one hundred three" are one.
+      const sofar = total + current;
+      const joins = sofar % 100 === 0 ? sofar > 0 : sofar % 100 >= 20 && sofar % 10 === 0;
+      if (used && (!joins || word === 'zero')) break;
+      current += UNITS.indexOf(word);
+    } else {
+      if (used && ((total + current) % 100 !== 0 || total + current === 0)) break;
+      current += TENS.indexOf(word) * 10;
+    }
+    used = true;
+    i++;
+  }
+  if (!used) return null;
+  let value = String(total + current);
+  if (words[i] === 'point' && UNITS.slice(0, 10).includes(words[i + 1])) {
+    i++;
+    let digits = '';
+    while (i < words.length && UNITS.slice(0, 10).includes(words[i])) digits += UNITS.indexOf(words[i++]);
+    value += `.${digits}`;
+  }
+  return { value, length: i - start };
+};
+
+const tokenize = (text: string): Token[] => {
+  let normalized = text;
+  for (const [pattern, replacement] of UNICODE) normalized = normalized.replace(pattern, replacement);
+  const raw = normalized.match(/\d+(?:\.\d+)?|[a-zA-Z]+|<=|>=|!=|[^\s\w]/g) || [];
+  const words = raw.map(w => w.toLowerCase());
+
+  const tokens: Token[] = [];
+  let i = 0;
+  const pushNumber = (value: string, length: number) => {
+    const denominator = /^\d+$/.test(value) ? DENOMINATORS[words[i + length]] : undefined;
+    const used = denominator ? length + 1 : length;
+    tokens.push({ kind: 'number', value: denominator ? `\\frac{${value}}{${denominator}}` : value, word: raw.slice(i, i + used).join(' ') });
+    i += used;
+  };
+
+  while (i < words.length) {
+    const word = words[i];
+    const previous = tokens[tokens.length - 1];
+
+    if (/^\d/.test(word)) {
+      pushNumber(word, 1);
+      continue;
+    }
+    const spelled = readNumberWords(words, i);
+    if (spelled) {
+      pushNumber(spelled.value, spelled.length);
+      continue;
+    }
+    // "to the fourth (power)"
+    if (previous?.kind === 'keyword' && previous.name === 'power' && ORDINALS[word]) {
+      tokens.push({ kind: 'number', value: ORDINALS[word], word: raw[i++] });
+      if (words[i] === 'power') i++;
+      continue;
+    }
+    // "dx", or "d x" at the end of an integral.
+    const differential = /^d([xyztuvr])$/.exec(word) || (word === 'd' && /^[xyztuvr]$/.test(words[i + 1] || '') ? [word, words[i + 1]] : null);
+    if (differential) {
+      const length = word === 'd' ? 2 : 1;
+      tokens.push({ kind: 'differential', variable: differential[1], word: raw.slice(i, i + length).join(' ') });
+      i += length;
+      continue;
+    }
+    const phrase = PHRASE_TABLE.find(p => p.words.every((w, k) => words[i + k] === w));
+    if (phrase) {
+      tokens.push(phrase.make(raw.slice(i, i + phrase.words.length).join(' ')));
+      i += phrase.words.length;
+      continue;
+    }
+    if (SYMBOLS[word]) {
+      tokens.push(SYMBOLS[word](raw[i++]));
+      continue;
+    }
+    if (/^[a-z]$/.test(word)) {
+      tokens.push({ kind: 'variable', tex: word, word: raw[i++] });
+      continue;
+    }
+    tokens.push({ kind: 'word', word: raw[i++] });
+  }
+  return tokens;
+};
+
+const POSTFIX: Keyword[] = ['squared', 'cubed', 'power', 'sub', 'factorial', 'prime', 'degrees', 'percent', 'over'];
+const PREFIX: Keyword[] = ['sqrt', 'cbrt', 'abs', 'integral', 'sum', 'limit', 'derivative', 'negative', 'open'];
+
+const isKeyword = (token: Token | undefined, ...names: Keyword[]) => token?.kind === 'keyword' && names.includes(token.name);
+
+// A group that is already bracketed doesn't need braces-and-brackets inside \sqrt{} or ^{}.
+const unwrap = (tex: string) => {
+  const match = /^\\left\((.*)\\right\)$/.exec(tex);
+  return match && !/\\right\).*\\left\(/.test(match[1]) ? match[1] : tex;
+};
+
+// Implicit multiplication reads best without a space after a number: 3x, 2\pi.
+const joinTerms = (parts: string[]) =>
+  parts.reduce((tex, part) => !tex ? part : /\d$/.test(tex) && /^[a-z\\]/.test(part) && !/^\\(cdot|le|ge|ne|pm)\b/.test(part) ? tex + part : `${tex} ${part}`, '');
+
+class SpokenParser {
+  pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private skip(...names: Keyword[]) {
+    while (isKeyword(this.peek(), ...names)) this.pos++;
+  }
+
+  startsOperand(token = this.peek()): boolean {
+    if (!token) return false;
+    if (token.kind === 'number' || token.kind === 'variable' || token.kind === 'function') return true;
+    if (token.kind === 'operator') return token.tex === '-';
+    return token.kind === 'keyword' && PREFIX.includes(token.name);
+  }
+
+  /** Terms joined by operators, up to a token `stop` accepts or one that isn't math. */
+  expression(stop: (token: Token) => boolean = () => false): string {
+    const parts: string[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || stop(token)) break;
+      if (isKeyword(token, 'the') && this.startsOperand(this.tokens[this.pos + 1])) {
+        this.pos++;
+        continue;
+      }
+      if (token.kind === 'operator') {
+        parts.push(token.tex);
+        this.pos++;
+        continue;
+      }
+      if (!this.startsOperand(token)) break;
+      parts.push(this.term());
+    }
+    return joinTerms(parts);
+  }
+
+  /** One operand with its exponents, subscripts and fraction bars. */
+  term(allowOver = true): string {
+    let tex = this.atom();
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'keyword' || !POSTFIX.includes(token.name) || (token.name === 'over' && !allowOver)) return tex;
+      this.pos++;
+      // x^{2} squared would be a double superscript.
+      const base = /[\^_]/.test(tex) && !tex.startsWith('\\left(') ? `{${tex}}` : tex;
+      switch (token.name) {
+        case 'squared': tex = `${base}^{2}`; break;
+        case 'cubed': tex = `${base}^{3}`; break;
+        case 'power': {
+          this.skip('the');
+          tex = `${base}^{${unwrap(this.term(false))}}`;
+          if (this.peek()?.kind === 'word' && this.peek()!.word.toLowerCase() === 'power') this.pos++;
+          break;
+        }
+        case 'sub': tex = `${base}_{${unwrap(this.atom())}}`; break;
+        case 'factorial': tex = `${tex}!`; break;
+        case 'prime': tex = `${tex}'`; break;
+        case 'degrees': tex = `${base}^\\circ`; break;
+        case 'percent': tex = `${tex}\\%`; break;
+        case 'over': tex = `\\frac{${unwrap(tex)}}{${unwrap(this.term(false))}}`; break;
+      }
+    }
+  }
+
+  private atom(): string {
+    this.skip('the');
+    const token = this.peek();
+    if (!token || !this.startsOperand(token)) return '';
+    this.pos++;
+
+    switch (token.kind) {
+      case 'number':
+        // "two x" is 2x; a following number is a separate term.
+        return token.value;
+      case 'variable':
+        return token.tex;
+      case 'operator':
+        return token.tex === '-' ? `-${this.term(false)}` : token.tex;
+      case 'function': {
+        let tex = token.tex;
+        if (tex === '\\log' && isKeyword(this.peek(), 'base')) {
+          this.pos++;
+          tex = `\\log_{${unwrap(this.atom())}}`;
+        }
+        if (isKeyword(this.peek(), 'squared', 'cubed')) {
+          tex += (this.tokens[this.pos++] as { name: Keyword }).name === 'squared' ? '^{2}' : '^{3}';
+        }
+        this.skip('of', 'the');
+        return `${tex} ${this.term(false)}`;
+      }
+    }
+    if (token.kind !== 'keyword') return '';
+
+    switch (token.name) {
+      case 'negative':
+        return `-${this.term(false)}`;
+      case 'open': {
+        const inner = this.expression(t => isKeyword(t, 'close'));
+        this.skip('close');
+        return `\\left(${inner}\\right)`;
+      }
+      case 'sqrt':
+      case 'cbrt': {
+        this.skip('of', 'the');
+        const radicand = unwrap(this.term());
+        return token.name === 'sqrt' ? `\\sqrt{${radicand}}` : `\\sqrt[3]{${radicand}}`;
+      }
+      case 'abs': {
+        this.skip('the');
+        return `\\left|${unwrap(this.term())}\\right|`;
+      }
+      case 'integral': {
+        const bounds = this.bounds();
+        this.skip('of');
+        const body = this.expression(t => t.kind === 'differential' || (t.kind === 'operator' && t.relation));
+        const differential = this.peek();
+        if (differential?.kind !== 'differential') return joinTerms([`\\int${bounds}`, body].filter(Boolean));
+        this.pos++;
+        return joinTerms([`\\int${bounds}`, body, `\\, d${differential.variable}`].filter(Boolean));
+      }
+      case 'sum': {
+        const bounds = this.bounds();
+        this.skip('of');
+        const body = this.expression(t => t.kind === 'operator' && t.relation);
+        return `\\sum${bounds} ${body}`;
+      }
+      case 'limit': {
+        this.skip('as');
+        const variable = this.atom();
+        let target = '';
+        if (isKeyword(this.peek(), 'approaches', 'to')) {
+          this.pos++;
+          target = this.term(false);
+        }
+        this.skip('of');
+        return target ? `\\lim_{${variable} \\to ${target}}` : `\\lim_{${variable}}`;
+      }
+      case 'derivative': {
+        this.skip('of');
+        const body = this.expression(t => isKeyword(t, 'wrt') || (t.kind === 'operator' && t.relation));
+        let variable = 'x';
+        if (isKeyword(this.peek(), 'wrt')) {
+          this.pos++;
+          variable = this.atom() || 'x';
+        }
+        return `\\frac{d}{d${variable}}\\left(${unwrap(body)}\\right)`;
+      }
+      default:
+        return '';
+    }
+  }
+
+  // "from a to b" after an integral or sum.
+  private bounds(): string {
+    if (!isKeyword(this.peek(), 'from')) return '';
+    this.pos++;
+    const lower = this.expression(t => isKeyword(t, 'to', 'of') || t.kind === 'differential');
+    if (!isKeyword(this.peek(), 'to')) return `_{${lower}}`;
+    this.pos++;
+    return `_{${lower}}^{${unwrap(this.term(false))}}`;
+  }
+}
+
+// "a" and "i" are usually words, not variables, unless math follows them.
+const ARTICLE_LETTERS = ['a', 'i'];
+
+/**
+ * Converts a dictated sentence. Math runs are wrapped in `$...$`; a number on
+ * its own is left as plain digits.
+ */
+export const spokenToLatex = (text: string): string => {
+  const tokens = tokenize(text);
+  const parser = new SpokenParser(tokens);
+  const out: string[] = [];
+
+  while (parser.pos < tokens.length) {
+    const token = tokens[parser.pos];
+    const next = tokens[parser.pos + 1];
+    const article = token.kind === 'variable' && ARTICLE_LETTERS.includes(token.tex)
+      && !(next?.kind === 'operator' || (next?.kind === 'keyword' && POSTFIX.includes(next.name)));
+    const startsMath = !article && (parser.startsOperand(token) || (token.kind === 'operator' && out.length > 0));
+    if (!startsMath) {
+      out.push(token.word);
+      parser.pos++;
+      continue;
+    }
+    const start = parser.pos;
+    const tex = parser.expression().trim();
+    if (parser.pos === start) {
+      out.push(token.word);
+      parser.pos++;
+    } else {
+      out.push(/^\d+(\.\d+)?$/.test(tex) ? tex : `$${tex}$`);
+    }
+  }
+
+  return out.join(' ').replace(/\s+([,.;:!?])/g, '$1');
+};
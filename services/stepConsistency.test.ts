@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { SolveStep } from '../types';
+import { checkStepConsistency } from './stepConsistency';
+import { MOCK_SOLUTIONS } from './fixtures/mockSolutions';
+
+const steps = (...math: string[]): SolveStep[] =>
+  math.map((line, idx) => ({ title: `Step ${idx + 1}`, explanation: '', math: line }));
+
+const statuses = (solution: SolveStep[]) => checkStepConsistency(solution).map(check => check.status);
+
+describe('checkStepConsistency', () => {
+  it('accepts the fixture solutions', () => {
+    for (const solution of Object.values(MOCK_SOLUTIONS)) {
+      expect(statuses(solution.steps)).not.toContain('break');
+    }
+  });
+
+  it('flags a step that loses a solution', () => {
+    const checks = checkStepConsistency(steps('$$2x + 5 = 15$$', '$$2x = 20$$'));
+    expect(checks[1]).toMatchObject({ status: 'break', from: '2x + 5 = 15', to: '2x = 20' });
+  });
+
+  it('flags an arithmetic slip inside a chain', () => {
+    expect(statuses(steps('$$2x = 10$$', '$$x = \\frac{10}{2} = 4$$'))[1]).toBe('break');
+  });
+
+  it('reports roots added by squaring as possibly extraneous', () => {
+    const checks = checkStepConsistency(steps(
+      '$$\\sqrt{x+2} = x$$',
+      '$$x + 2 = x^2$$',
+      '$$x = 2 \\text{ or } x = -1$$',
+      '$$x = 2$$'
+    ));
+    expect(checks.map(check => check.status)).toEqual(['consistent', 'extraneous', 'consistent', 'consistent']);
+    expect(checks[1].detail).toContain('x = -1');
+  });
+
+  it('accepts multiplying through by a factor', () => {
+    expect(statuses(steps('$$\\frac{x^2}{x-1} = \\frac{1}{x-1}$$', '$$x^2 = 1$$'))).toEqual(['consistent', 'extraneous']);
+  });
+
+  it('skips steps it cannot read', () => {
+    expect(statuses(steps('Draw the graph of $f$.'))).toEqual(['skipped']);
+  });
+});
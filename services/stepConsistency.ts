@@ -0,0 +1,249 @@
+import { SolveStep, StepCheck } from "../types";
+import {
+  MathNode,
+  collectVariables,
+  containsCall,
+  evaluate,
+  expressionsEquivalent,
+  findRealRoots,
+  latexToPlain,
+  nearlyEqual,
+  tryParseMath
+} from "./mathExpression";
+
+interface Side {
+  source: string;
+  node: MathNode;
+}
+
+// One line of working: either a chain of equal expressions or an equation
+// (possibly a disjunction such as "x = 2 or x = 3").
+type Relation =
+  | { kind: 'identity'; last: Side }
+  | { kind: 'equation'; source: string; alternatives: [Side, Side][]; approximate: boolean };
+
+type ParsedPiece = Relation | { kind: 'break'; detail: string; from: string; to: string } | null;
+
+const IMPLICATION = /\\implies|\\Longrightarrow|\\Rightarrow|\\iff|\\Leftrightarrow|\\therefore|\\\\|\\quad|\\qquad|&|\n/;
+
+const stripDelimiters = (tex: string) =>
+  tex
+    .replace(/\$\$|\$|\\\[|\\\]|\\\(|\\\)/g, '')
+    .replace(/\\begin\{[^}]*\}|\\end\{[^}]*\}/g, '')
+    // Keep "a \quad \text{or} \quad b" together as one disjunction.
+    .replace(/(\\q?quad\s*)*\\text\{\s*or\s*\}(\s*\\q?quad)*/g, ' or ');
+
+const isNumeric = (side: Side) => collectVariables(side.node).size === 0;
+
+const parseSide = (source: string): Side | null => {
+  const node = tryParseMath(source);
+  return node ? { source: source.trim(), node } : null;
+};
+
+const sidesEqual = (a: Side, b: Side, tolerance: number): boolean | null => {
+  if (isNumeric(a) && isNumeric(b)) {
+    const va = evaluate(a.node);
+    const vb = evaluate(b.node);
+    if (!Number.isFinite(va) || !Number.isFinite(vb)) return null;
+    return nearlyEqual(va, vb, tolerance);
+  }
+  return expressionsEquivalent(a.node, b.node, { tolerance });
+};
+
+/**
+ * Parses one piece of a step. `carry` is the last expression of the previous
+ * piece, used when a line continues a chain with a leading "=".
+ */
+const parsePiece = (raw: string, carry: Side | null): ParsedPiece => {
+  let source = raw.trim();
+  if (!source) return null;
+  if (source.startsWith('=') && carry) source = `${carry.source} ${source}`;
+  const approximate = /\d\.\d/.test(source);
+  const tolerance = approximate ? 1e-2 : 1e-6;
+
+  const alternatives = latexToPlain(source)
+    .split(/\bor\b|,/)
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  if (alternatives.length > 1) {
+    const parsed = alternatives.map(alt => alt.split('=').map(parseSide));
+    if (parsed.some(sides => sides.length !== 2 || sides.some(s => !s))) return null;
+    return { kind: 'equation', source, alternatives: parsed as [Side, Side][], approximate };
+  }
+
+  const parts = source.split('=');
+  const sides = parts.map(parseSide);
+  if (sides.some(s => !s)) return null;
+  const chain = sides as Side[];
+  if (chain.length === 1) return { kind: 'identity', last: chain[0] };
+
+  // Every "=" in a chain should be an identity, except one that states the equation.
+  const nonIdentities: number[] = [];
+  for (let i = 0; i < chain.length - 1; i++) {
+    const equal = sidesEqual(chain[i], chain[i + 1], tolerance);
+    if (equal === null) return null;
+    if (!equal) nonIdentities.push(i);
+  }
+
+  if (nonIdentities.length === 0) return { kind: 'identity', last: chain[chain.length - 1] };
+
+  const numericFailure = nonIdentities.find(i => isNumeric(chain[i]) && isNumeric(chain[i + 1]));
+  if (numericFailure !== undefined || nonIdentities.length > 1) {
+    const i = numericFailure ?? nonIdentities[nonIdentities.length - 1];
+    return {
+      kind: 'break',
+      detail: `"${chain[i].source}" and "${chain[i + 1].source}" are not equal.`,
+      from: chain[i].source,
+      to: chain[i + 1].source
+    };
+  }
+
+  const i = nonIdentities[0];
+  return { kind: 'equation', source, alternatives: [[chain[i], chain[i + 1]]], approximate };
+};
+
+const singleVariable = (relation: Extract<Relation, { kind: 'equation' }>): string | null => {
+  const vars = new Set<string>();
+  relation.alternatives.forEach(([l, r]) => { collectVariables(l.node, vars); collectVariables(r.node, vars); });
+  return vars.size === 1 ? [...vars][0] : null;
+};
+
+const rootsOf = (relation: Extract<Relation, { kind: 'equation' }>, variable: string): number[] | null => {
+  const roots: number[] = [];
+  for (const [lhs, rhs] of relation.alternatives) {
+    // "x = 5" states its root directly.
+    if (lhs.node.type === 'var' && isNumeric(rhs)) {
+      roots.push(evaluate(rhs.node));
+      continue;
+    }
+    if (containsCall(lhs.node) || containsCall(rhs.node)) return null;
+    roots.push(...findRealRoots(x => evaluate(lhs.node, { [variable]: x }) - evaluate(rhs.node, { [variable]: x })));
+  }
+  return roots;
+};
+
+const satisfies = (relation: Extract<Relation, { kind: 'equation' }>, variable: string, x: number, tolerance: number) =>
+  relation.alternatives.some(([lhs, rhs]) => {
+    const left = evaluate(lhs.node, { [variable]: x });
+    const right = evaluate(rhs.node, { [variable]: x });
+    return Number.isFinite(left) && Number.isFinite(right) && nearlyEqual(left, right, tolerance);
+  });
+
+const formatRoot = (root: number) => Number.isInteger(root) ? String(root) : String(Number(root.toPrecision(6)));
+
+const includesRoot = (roots: number[], root: number, tolerance: number) => roots.some(r => nearlyEqual(r, root, tolerance));
+
+/**
+ * Checks that no solution of `previous` is lost in `next`. Solutions that only
+ * `next` has are not an error: squaring both sides or multiplying through by
+ * `(x - 1)` can add roots, so they are reported as possibly extraneous.
+ * `extraneous` holds roots already reported that way; a later step may drop them.
+ */
+const checkTransition = (
+  previous: Extract<Relation, { kind: 'equation' }>,
+  next: Extract<Relation, { kind: 'equation' }>,
+  extraneous: number[]
+): Omit<StepCheck, 'index'> & { added?: number[] } | null => {
+  const variable = singleVariable(previous);
+  if (!variable || singleVariable(next) !== variable) return null;
+
+  const previousRoots = rootsOf(previous, variable);
+  const nextRoots = rootsOf(next, variable);
+  // Either direction can still be checked when only one side's roots can be found.
+  if (!previousRoots && !nextRoots) return null;
+  const tolerance = previous.approximate || next.approximate ? 1e-2 : 1e-6;
+  const lost = (previousRoots || []).filter(root => !satisfies(next, variable, root, tolerance) && !includesRoot(extraneous, root, tolerance));
+  const added = (nextRoots || []).filter(root => !satisfies(previous, variable, root, tolerance));
+
+  if (lost.length > 0) {
+    const detail = added.length > 0
+      ? `"${next.source}" does not follow from the previous "${previous.source}": ${variable} = ${formatRoot(lost[0])} solves only the previous equation and ${variable} = ${formatRoot(added[0])} only this one.`
+      : `${variable} = ${formatRoot(lost[0])} solves the previous "${previous.source}" but not "${next.source}".`;
+    return { status: 'break', detail, from: previous.source, to: next.source };
+  }
+  if (added.length > 0) {
+    return {
+      status: 'extraneous',
+      detail: `${added.map(root => `${variable} = ${formatRoot(root)}`).join(', ')} solves "${next.source}" but not the previous "${previous.source}". Check it against the original equation.`,
+      from: previous.source,
+      to: next.source,
+      added
+    };
+  }
+  return { status: 'consistent' };
+};
+
+// The last line of a step's working: what the step is expected to arrive at.
+export const finalWorkingLine = (math: string): string => {
+  const pieces = stripDelimiters(math).split(IMPLICATION).map(piece => piece.trim()).filter(Boolean);
+  return (pieces[pieces.length - 1] || '').replace(/^=\s*/, '');
+};
+
+/**
+ * Walks a solution's steps and reports, per step, whether its math follows
+ * from the working before it. Steps whose math cannot be read are "skipped".
+ */
+export const checkStepConsistency = (steps: SolveStep[]): StepCheck[] => {
+  let lastEquation: Extract<Relation, { kind: 'equation' }> | null = null;
+  let carry: Side | null = null;
+  const extraneous: number[] = [];
+
+  return steps.map((step, index): StepCheck => {
+    const pieces = stripDelimiters(step.math).split(IMPLICATION);
+    let result: StepCheck = { index, status: 'skipped' };
+
+    for (const raw of pieces) {
+      let piece: ParsedPiece;
+      try {
+        piece = parsePiece(raw, carry);
+      } catch {
+        piece = null;
+      }
+      if (!piece) continue;
+
+      if (piece.kind === 'break') {
+        return { index, status: 'break', detail: piece.detail, from: piece.from, to: piece.to };
+      }
+      if (result.status === 'skipped') result = { index, status: 'consistent' };
+
+      if (piece.kind === 'identity') {
+        carry = piece.last;
+        continue;
+      }
+
+      const [, rhs] = piece.alternatives[piece.alternatives.length - 1];
+      carry = rhs;
+
+      // An equation without unknowns (e.g. checking 2(5) + 5 = 15) must simply hold.
+      const numeric = piece.alternatives.every(([l, r]) => isNumeric(l) && isNumeric(r));
+      if (numeric) {
+        const [l, r] = piece.alternatives[0];
+        if (!sidesEqual(l, r, piece.approximate ? 1e-2 : 1e-6)) {
+          return { index, status: 'break', detail: `"${l.source}" does not equal "${r.source}".`, from: l.source, to: r.source };
+        }
+        continue;
+      }
+
+      if (lastEquation) {
+        let transition: ReturnType<typeof checkTransition> = null;
+        try {
+          transition = checkTransition(lastEquation, piece, extraneous);
+        } catch {
+          transition = null;
+        }
+        if (transition?.status === 'break') {
+          lastEquation = piece;
+          return { index, status: 'break', detail: transition.detail, from: transition.from, to: transition.to };
+        }
+        if (transition?.status === 'extraneous') {
+          extraneous.push(...transition.added);
+          result = { index, status: 'extraneous', detail: transition.detail, from: transition.from, to: transition.to };
+        }
+      }
+      lastEquation = piece;
+    }
+
+    return result;
+  });
+};
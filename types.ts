@@ -6,6 +6,11 @@ export enum MessageRole {
 
 export type ExplanationLevel = 'quick' | 'standard' | 'deep' | 'academic';
 
+export const EXPLANATION_LEVELS: ExplanationLevel[] = ['quick', 'standard', 'deep', 'academic'];
+
+// 'tutor' asks for hint-first replies that are revealed one step at a time.
+export type SolveMode = 'solve' | 'tutor';
+
 export interface Message {
   id: string;
   role: MessageRole;
@@ -14,18 +19,90 @@ export interface Message {
   image?: string;
   type?: 'text' | 'image' | 'drawing';
   metadata?: SolveResponse;
+  // Sections received so far while a solution streams in, or kept after the user stopped it.
+  partialMetadata?: PartialSolveResponse;
+  stopped?: boolean;
+  verification?: VerificationResult;
+  practice?: PracticeSet;
+  tutor?: TutorState;
+  // Level the solution was explained at, so sessions mixing levels render and restore correctly.
+  level?: ExplanationLevel;
+  // Id of the solution this one re-explains at a different level.
+  reexplainOf?: string;
+  // LaTeX read from the attached image and confirmed (or corrected) by the student.
+  transcription?: string;
+  worksheet?: WorksheetItem;
+  // Why the solve failed, so the reply can explain it and offer a retry.
+  errorKind?: SolveErrorKind;
+  // Asked while offline; waiting in the outbox to be solved.
+  queued?: boolean;
+  // Answered from the local solution cache rather than by the solver.
+  cached?: boolean;
+}
+
+export interface SolveStep {
+  title: string;
+  explanation: string;
+  math: string;
+  // Socratic nudge towards this step, present in tutoring replies.
+  hint?: string;
+}
+
+// A curve y = f(x), written in x as LaTeX or plain text.
+export interface GraphFunction {
+  expression: string;
+  label?: string;
+}
+
+export type GraphPointKind = 'root' | 'intercept' | 'extremum' | 'intersection' | 'solution' | 'other';
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+  label?: string;
+  kind?: GraphPointKind;
+  // The point the final answer refers to.
+  isAnswer?: boolean;
+}
+
+/**
+ * Area between two curves over [from, to]. A missing curve stands for the edge
+ * of the plot, so a region with neither is a vertical band (e.g. a solution
+ * interval of an inequality) and one with only `upper` shades below a curve.
+ */
+export interface GraphRegion {
+  lower?: string;
+  upper?: string;
+  from?: number;
+  to?: number;
+  label?: string;
+}
+
+export interface GraphSpec {
+  functions: GraphFunction[];
+  points: GraphPoint[];
+  regions: GraphRegion[];
+  // Suggested initial window; otherwise it is fitted to the points of interest.
+  xRange?: [number, number];
+  yRange?: [number, number];
 }
 
 export interface SolveResponse {
   description: string;
   concepts: string[];
-  steps: {
-    title: string;
-    explanation: string;
-    math: string;
-  }[];
+  steps: SolveStep[];
   finalAnswer: string;
   tutoringTip?: string;
+  // Plotted locally for problems about functions, equations and inequalities.
+  graph?: GraphSpec;
+}
+
+export interface PartialSolveResponse {
+  description?: string;
+  concepts?: string[];
+  steps: SolveStep[];
+  finalAnswer?: string;
+  tutoringTip?: string;
 }
 
 export interface ChatHistoryItem {
@@ -34,3 +111,211 @@ export interface ChatHistoryItem {
   timestamp: number;
   lastMessage: string;
 }
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Message[];
+}
+
+export interface SolveRequest {
+  input: string;
+  level: ExplanationLevel;
+  image?: string;
+  history: Message[];
+  mode?: SolveMode;
+  transcription?: string;
+  // Instructions for this solve only, e.g. why an earlier answer was rejected. Not part of the question.
+  guidance?: string;
+}
+
+export interface SolveOptions {
+  signal?: AbortSignal;
+  onPartial?: (partial: PartialSolveResponse) => void;
+  // Called before an automatic retry of a transient failure.
+  onRetry?: (error: SolveError, attempt: number, delayMs: number) => void;
+}
+
+export interface PracticeRequest {
+  source: SolveResponse;
+  level: ExplanationLevel;
+  count: number;
+}
+
+export interface SolverProvider {
+  name: string;
+  solve: (request: SolveRequest, options?: SolveOptions) => Promise<SolveResult>;
+  generatePractice: (request: PracticeRequest) => Promise<PracticeProblem[]>;
+  // Reads handwritten or photographed math into LaTeX.
+  transcribeMath: (image: string) => Promise<string>;
+  // Lists the separate exercises on a photographed worksheet.
+  enumerateProblems: (image: string) => Promise<WorksheetProblem[]>;
+}
+
+export type SolveErrorKind =
+  | 'empty_response'
+  | 'malformed_json'
+  | 'invalid_schema'
+  | 'aborted'
+  | 'missing_api_key'
+  | 'auth'
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'safety_blocked'
+  | 'off_topic'
+  | 'network'
+  | 'server'
+  | 'unknown';
+
+export interface SolveError {
+  kind: SolveErrorKind;
+  message: string;
+  issues: string[];
+  raw?: string;
+  // Transient failures that are worth sending again unchanged.
+  retryable?: boolean;
+  // Wait the backend asked for before the next request, when it gave one.
+  retryAfterMs?: number;
+}
+
+export type SolveResult =
+  // `cached` marks an answer served from the local solution cache.
+  | { ok: true; data: SolveResponse; repaired: boolean; cached?: boolean }
+  | { ok: false; error: SolveError };
+
+export type VerificationStatus = 'verified' | 'unverified' | 'mismatch';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  method?: string;
+  detail: string;
+}
+
+export interface StepCheck {
+  index: number;
+  // 'extraneous': the step is valid but not reversible (e.g. squaring), so some of its roots may not solve the original.
+  status: 'consistent' | 'extraneous' | 'break' | 'skipped';
+  detail?: string;
+  from?: string;
+  to?: string;
+}
+
+export type GradeStatus = 'correct' | 'incorrect' | 'unknown';
+
+export interface PracticeAttempt {
+  answer: string;
+  image?: string;
+  status: GradeStatus;
+  detail: string;
+  timestamp: number;
+}
+
+export interface PracticeProblem {
+  id: string;
+  problem: string;
+  solution: SolveResponse;
+  attempts: PracticeAttempt[];
+  revealed: boolean;
+}
+
+export interface PracticeSet {
+  id: string;
+  sourceMessageId: string;
+  concepts: string[];
+  level: ExplanationLevel;
+  problems: PracticeProblem[];
+}
+
+export interface TutorAttempt {
+  stepIndex: number;
+  answer: string;
+  status: GradeStatus;
+  detail: string;
+  timestamp: number;
+}
+
+export interface TutorState {
+  // Index of the step the student is working on; equals steps.length once complete.
+  currentStep: number;
+  // Steps whose working was shown to the student instead of being found by them.
+  revealedSteps: number[];
+  attempts: TutorAttempt[];
+  phase: 'working' | 'complete';
+}
+
+export interface InkPoint {
+  x: number;
+  y: number;
+  // 0..1 as reported by the pointer; mice report a constant 0.5.
+  pressure: number;
+}
+
+export interface InkStroke {
+  points: InkPoint[];
+  color: string;
+  width: number;
+}
+
+// A rectangle as fractions (0..1) of an image's width and height.
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WorksheetProblem {
+  id: string;
+  // Numbering as printed on the sheet, e.g. "3" or "4b".
+  label: string;
+  text: string;
+  region?: ImageRegion;
+}
+
+export type WorksheetItemStatus = 'queued' | 'solving' | 'done' | 'failed';
+
+// Marks an assistant message as one problem of a batch-solved worksheet.
+export interface WorksheetItem {
+  batchId: string;
+  label: string;
+  status: WorksheetItemStatus;
+}
+
+// A problem and its worked solution as carried by a share link or bundle.
+export interface SharedSolution {
+  question: Pick<Message, 'content' | 'image' | 'transcription'>;
+  solution: SolveResponse;
+  level?: ExplanationLevel;
+  verification?: VerificationResult;
+  sharedAt: number;
+}
+
+// A problem submitted without a connection, solved into its placeholder reply once back online.
+export interface OutboxItem {
+  id: string;
+  sessionId: string;
+  questionId: string;
+  answerId: string;
+  text: string;
+  image?: string;
+  transcription?: string;
+  level: ExplanationLevel;
+  mode: SolveMode;
+  createdAt: number;
+}
+
+// One part of a solution that is spoken, and highlighted, on its own.
+export interface ReadAloudSection {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export interface SpeechSettings {
+  // BCP 47 tag such as "en-US"; the voice list is filtered to it.
+  lang: string;
+  voiceURI?: string;
+  rate: number;
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly SOLVER_PROVIDER?: string;
+  readonly SOLVER_MODEL?: string;
+  readonly SOLVER_MOCK_LATENCY_MS?: string;
+  readonly GEMINI_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
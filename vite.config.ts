@@ -1,19 +1,45 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Writes the built files into the service worker's precache list (public/sw.js),
+// so an offline start after the first visit has every script, style and font,
+// and names its caches after them so each deploy clears the previous one's.
+const precacheManifest = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    writeBundle(_options, bundle) {
+      // Browsers with service workers all read woff2; the older font formats stay runtime-cached.
+      const files = Object.keys(bundle)
+        .filter(name => name !== 'index.html' && !/\.(map|woff|ttf)$/.test(name))
+        .sort();
+      const workerPath = path.join(outDir, 'sw.js');
+      const source = fs.readFileSync(workerPath, 'utf8');
+      // File names carry content hashes, so they change exactly when the build does.
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      fs.writeFileSync(workerPath, source
+        .replace('self.__PRECACHE_MANIFEST', JSON.stringify(files.map(name => `./${name}`)))
+        .replace('self.__BUILD_VERSION', JSON.stringify(version)));
+    }
+  };
+};
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), precacheManifest()],
+      // Exposes SOLVER_* and GEMINI_API_KEY from .env files on import.meta.env (see services/config.ts).
+      envPrefix: ['VITE_', 'SOLVER_', 'GEMINI_'],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),